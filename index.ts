@@ -12,24 +12,76 @@
  */
 export type {
   ModuleTiming,
+  ModuleFormat,
+  ModuleImporter,
   ProviderTiming,
+  ProviderPhase,
+  ProviderPhaseError,
+  TimeSpan,
+  TimelineEntry,
+  TimingStats,
   ProfileResult,
   ProfileSummary,
+  ProfileMode,
+  CommandTiming,
+  ProfileDocument,
+  ProfileComparison,
+  Delta,
+  DeltaGroup,
+  EntryDelta,
+  PerformanceBudget,
+  BudgetCheck,
   DocteurConfig,
   ResolvedConfig,
+  ReporterOutputs,
   AppFileCategory,
   AppFileGroup,
+  TraceEvent,
+  TraceDocument,
+  SpeedscopeProfile,
+  SpeedscopeDocument,
 } from './src/types.js'
 
 /**
  * Export profiler for programmatic usage
  */
-export { profile, isAdonisProject, findEntryPoint } from './src/profiler/profiler.js'
+export {
+  profile,
+  isAdonisProject,
+  findEntryPoint,
+  DEFAULT_ENTRY_POINTS,
+  type ProfileOptions,
+} from './src/profiler/profiler.js'
+
+/**
+ * Export config helpers for docteur.config.ts files
+ */
+export { defineConfig, defaultConfig, loadConfig, resolveConfig } from './src/profiler/config.js'
+
+/**
+ * Export comparison helpers for baseline diffs
+ */
+export {
+  compareProfiles,
+  loadProfileDocument,
+  type ComparableProfile,
+  type CompareOptions,
+} from './src/profiler/comparison.js'
+
+/**
+ * Export multi-run aggregation
+ */
+export { aggregateResults, computeStats } from './src/profiler/statistics.js'
+
+/**
+ * Export budget evaluation for CI checks
+ */
+export { evaluateBudgets, loadBudget } from './src/profiler/budgets.js'
 
 /**
  * Export collector class for advanced usage
  */
-export { ProfileCollector, type PackageGroup } from './src/profiler/collector.js'
+export { ProfileCollector, PHASE_TIME_KEYS, type PackageGroup } from './src/profiler/collector.js'
 
 /**
  * Export reporters for custom reporting
@@ -37,10 +89,24 @@ export { ProfileCollector, type PackageGroup } from './src/profiler/collector.js
 export type { Reporter, ReportContext } from './src/profiler/reporters/base_reporter.js'
 export { ConsoleReporter } from './src/profiler/reporters/console_reporter.js'
 export { TuiReporter } from './src/profiler/reporters/tui_reporter.js'
+export { ComparisonReporter } from './src/profiler/reporters/comparison_reporter.js'
+export { JsonReporter, PROFILE_FORMAT_VERSION } from './src/profiler/reporters/json_reporter.js'
+export { TraceReporter } from './src/profiler/reporters/trace_reporter.js'
+export { SpeedscopeReporter } from './src/profiler/reporters/speedscope_reporter.js'
+export { HtmlReporter } from './src/profiler/reporters/html_reporter.js'
+export { MarkdownReporter } from './src/profiler/reporters/markdown_reporter.js'
+export { FlameGraphReporter } from './src/profiler/reporters/flamegraph_reporter.js'
+export { CsvReporter } from './src/profiler/reporters/csv_reporter.js'
+export { JunitReporter } from './src/profiler/reporters/junit_reporter.js'
 export {
   colorDuration,
+  colorDelta,
+  colorVariance,
   createBar,
+  formatBudgetValue,
+  formatDelta,
   formatDuration,
+  formatVariance,
   getCategoryIcon,
   getEffectiveTime,
   simplifyUrl,
@@ -0,0 +1,110 @@
+import { defineCommand } from 'citty'
+import type { ResolvedConfig } from '#types'
+import { isAdonisProject, profile } from '#profiler/profiler'
+import { compareProfiles, loadProfileDocument } from '#profiler/comparison'
+import { applyCategories, compareDefaults, loadConfig, resolveConfig } from '#profiler/config'
+import { ComparisonReporter } from '#profiler/reporters/comparison_reporter'
+import { MarkdownReporter } from '#profiler/reporters/markdown_reporter'
+import { ui } from '#profiler/reporters/format'
+import { parseNumber } from '../flags.js'
+
+export const compareCommand = defineCommand({
+  meta: {
+    name: 'compare',
+    description: 'Compare a profile against a saved baseline',
+  },
+  args: {
+    baseline: {
+      type: 'positional',
+      description: 'Baseline profile (JSON written with --json)',
+      required: true,
+    },
+    current: {
+      type: 'positional',
+      description: 'Profile to compare (defaults to a fresh run)',
+      required: false,
+    },
+    top: {
+      type: 'string',
+      description: 'Number of entries to display per section (default: 10)',
+    },
+    threshold: {
+      type: 'string',
+      description: 'Ignore changes smaller than this threshold in ms (default: 1)',
+    },
+    entry: {
+      type: 'string',
+      description:
+        'Entry point to profile when no current profile is given (default: bin/server.ts)',
+    },
+    markdown: {
+      type: 'string',
+      description: 'Write the comparison as markdown to this file (e.g. for PR comments)',
+    },
+  },
+  async run({ args }) {
+    const cwd = process.cwd()
+
+    try {
+      const config = resolveConfig(compareDefaults, await loadConfig(cwd), {
+        entry: args.entry,
+        topModules: parseNumber(args.top, 'top'),
+        threshold: parseNumber(args.threshold, 'threshold'),
+      })
+      applyCategories(config)
+
+      const baseline = await loadProfileDocument(args.baseline)
+      const current = args.current
+        ? await loadProfileDocument(args.current)
+        : { result: await profileCurrent(cwd, config), cwd }
+
+      const comparison = compareProfiles(baseline, current, { threshold: config.threshold })
+
+      const context = {
+        result: current.result,
+        cwd: current.cwd,
+        comparison,
+        config,
+      }
+
+      new ComparisonReporter().render(context)
+
+      if (args.markdown) {
+        await new MarkdownReporter(args.markdown).render(context)
+        ui.logger.success(`Markdown report written to ${args.markdown}`)
+      }
+    } catch (error) {
+      ui.logger.error('Comparison failed')
+      if (error instanceof Error) {
+        ui.logger.error(error.message)
+      }
+      process.exit(1)
+    }
+  },
+})
+
+/**
+ * Profiles the application in the current directory for comparison.
+ */
+async function profileCurrent(cwd: string, config: ResolvedConfig) {
+  if (!isAdonisProject(cwd)) {
+    ui.logger.error('Not an AdonisJS project. Make sure adonisrc.ts exists.')
+    process.exit(1)
+  }
+
+  ui.logger.info('Starting cold start analysis...')
+  ui.logger.info(`Entry point: ${config.entry}`)
+  return profile(cwd, {
+    entryPoint: config.entry,
+    runs: config.runs,
+    warmup: config.warmup,
+    readySignal: config.readySignal,
+    timeout: config.timeout,
+    partialOnTimeout: config.partialOnTimeout,
+    excludeTranspile: config.excludeTranspile,
+    production: config.production,
+    buildDir: config.buildDir,
+    includeBuiltins: config.includeBuiltins,
+    suppressOutput: config.runs + config.warmup > 1,
+  })
+}
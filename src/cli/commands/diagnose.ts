@@ -1,7 +1,21 @@
 import { defineCommand } from 'citty'
-import { isAdonisProject, profile } from '#profiler/profiler'
+import type { PerformanceBudget, ProfileMode } from '#types'
+import { DEFAULT_ENTRY_POINTS, isAdonisProject, profile } from '#profiler/profiler'
+import { evaluateBudgets, loadBudget } from '#profiler/budgets'
+import { compareProfiles, loadProfileDocument } from '#profiler/comparison'
+import { applyCategories, loadConfig, resolveConfig } from '#profiler/config'
+import { ComparisonReporter } from '#profiler/reporters/comparison_reporter'
 import { ConsoleReporter } from '#profiler/reporters/console_reporter'
+import { JsonReporter } from '#profiler/reporters/json_reporter'
+import { TraceReporter } from '#profiler/reporters/trace_reporter'
+import { SpeedscopeReporter } from '#profiler/reporters/speedscope_reporter'
+import { HtmlReporter } from '#profiler/reporters/html_reporter'
+import { MarkdownReporter } from '#profiler/reporters/markdown_reporter'
+import { FlameGraphReporter } from '#profiler/reporters/flamegraph_reporter'
+import { CsvReporter } from '#profiler/reporters/csv_reporter'
+import { JunitReporter } from '#profiler/reporters/junit_reporter'
 import { ui } from '#profiler/reporters/format'
+import { parseNumber } from '../flags.js'
 
 export const diagnoseCommand = defineCommand({
   meta: {
@@ -11,28 +25,116 @@ export const diagnoseCommand = defineCommand({
   args: {
     'top': {
       type: 'string',
-      description: 'Number of slowest modules to display',
-      default: '20',
+      description: 'Number of slowest modules to display (default: 20)',
     },
     'threshold': {
       type: 'string',
-      description: 'Only show modules slower than this threshold (in ms)',
-      default: '1',
+      description: 'Only show modules slower than this threshold in ms (default: 1)',
     },
     'node-modules': {
       type: 'boolean',
-      description: 'Include node_modules in the analysis',
-      default: true,
+      description: 'Include node_modules in the analysis (default: true)',
+    },
+    'builtins': {
+      type: 'boolean',
+      description: 'Include Node.js builtins (node:*) in the analysis',
     },
     'group': {
       type: 'boolean',
-      description: 'Group modules by package name',
-      default: true,
+      description: 'Group modules by package name (default: true)',
     },
     'entry': {
       type: 'string',
-      description: 'Entry point to profile',
-      default: 'bin/server.ts',
+      description: 'Entry point to profile (default: bin/server.ts)',
+    },
+    'command': {
+      type: 'string',
+      description:
+        'Profile an ace command instead of the HTTP server (e.g. "migration:run --force")',
+    },
+    'test': {
+      type: 'boolean',
+      description: 'Profile the test runner boot until the first spec file loads',
+    },
+    'ready-signal': {
+      type: 'string',
+      description: 'Text the server prints once ready (default: started HTTP server)',
+    },
+    'timeout': {
+      type: 'string',
+      description: 'Maximum time to wait for the app in ms (default: 30000)',
+    },
+    'partial': {
+      type: 'boolean',
+      description: 'Report what was collected when profiling times out',
+    },
+    'production': {
+      type: 'boolean',
+      description: 'Profile the production build (run "node ace build" first)',
+    },
+    'exclude-transpile': {
+      type: 'boolean',
+      description: 'Leave TypeScript transpilation out, for production-equivalent times',
+    },
+    'runs': {
+      type: 'string',
+      description: 'Number of measured runs, reported as medians (default: 1)',
+    },
+    'warmup': {
+      type: 'string',
+      description: 'Number of warmup runs to discard before measuring (default: 0)',
+    },
+    'json': {
+      type: 'string',
+      description: 'Write the full profile as JSON to this file',
+    },
+    'trace': {
+      type: 'string',
+      description: 'Write a Chrome trace to this file (chrome://tracing, Perfetto)',
+    },
+    'speedscope': {
+      type: 'string',
+      description: 'Write a speedscope profile of import chains to this file',
+    },
+    'html': {
+      type: 'string',
+      description: 'Write a self-contained HTML report to this file',
+    },
+    'markdown': {
+      type: 'string',
+      description: 'Write a markdown summary to this file (e.g. for PR comments)',
+    },
+    'flamegraph': {
+      type: 'string',
+      description: 'Write an SVG flame graph of the import tree to this file',
+    },
+    'csv': {
+      type: 'string',
+      description: 'Write modules and providers as CSV files to this directory',
+    },
+    'tsv': {
+      type: 'string',
+      description: 'Write modules and providers as TSV files to this directory',
+    },
+    'baseline': {
+      type: 'string',
+      description: 'Baseline profile (JSON written with --json) to compare against',
+    },
+    'budget': {
+      type: 'string',
+      description: 'JSON file declaring performance budgets',
+    },
+    'junit': {
+      type: 'string',
+      description: 'Write the budget checks as a JUnit XML report to this file',
+    },
+    'max-boot-time': {
+      type: 'string',
+      description: 'Fail when total boot time exceeds this budget (in ms)',
+    },
+    'max-modules': {
+      type: 'string',
+      description: 'Fail when more modules than this are loaded',
     },
   },
   async run({ args }) {
@@ -43,23 +145,170 @@ export const diagnoseCommand = defineCommand({
       process.exit(1)
     }
 
-    ui.logger.info('Starting cold start analysis...')
-    ui.logger.info(`Entry point: ${args.entry}`)
-
     try {
-      const result = await profile(cwd, { entryPoint: args.entry })
+      const fileConfig = await loadConfig(cwd)
+      const commandArgs = args.command?.split(/\s+/).filter(Boolean)
+      const mode: ProfileMode = commandArgs ? 'ace' : args.test ? 'test' : 'web'
 
-      const reporter = new ConsoleReporter()
-      reporter.render({
-        result,
-        cwd,
-        config: {
-          topModules: Number.parseInt(args.top, 10),
-          threshold: Number.parseInt(args.threshold, 10),
-          includeNodeModules: args['node-modules'],
-          groupByPackage: args.group,
+      const budgets: PerformanceBudget = {
+        ...fileConfig.budgets,
+        ...(args.budget ? await loadBudget(args.budget) : {}),
+      }
+      const maxTotalTime = parseNumber(args['max-boot-time'], 'max-boot-time')
+      const maxModules = parseNumber(args['max-modules'], 'max-modules')
+      if (maxTotalTime !== undefined) budgets.maxTotalTime = maxTotalTime
+      if (maxModules !== undefined) budgets.maxModules = maxModules
+
+      const config = resolveConfig(fileConfig, {
+        entry: args.entry ?? (mode === 'web' ? undefined : DEFAULT_ENTRY_POINTS[mode]),
+        topModules: parseNumber(args.top, 'top'),
+        threshold: parseNumber(args.threshold, 'threshold'),
+        includeNodeModules: args['node-modules'],
+        includeBuiltins: args.builtins,
+        groupByPackage: args.group,
+        runs: parseNumber(args.runs, 'runs'),
+        warmup: parseNumber(args.warmup, 'warmup'),
+        readySignal: args['ready-signal'],
+        timeout: parseNumber(args.timeout, 'timeout'),
+        partialOnTimeout: args.partial,
+        excludeTranspile: args['exclude-transpile'],
+        production: args.production,
+        budgets,
+        reporters: {
+          ...fileConfig.reporters,
+          json: args.json ?? fileConfig.reporters?.json,
+          trace: args.trace ?? fileConfig.reporters?.trace,
+          speedscope: args.speedscope ?? fileConfig.reporters?.speedscope,
+          html: args.html ?? fileConfig.reporters?.html,
+          markdown: args.markdown ?? fileConfig.reporters?.markdown,
+          flamegraph: args.flamegraph ?? fileConfig.reporters?.flamegraph,
+          csv: args.csv ?? fileConfig.reporters?.csv,
+          tsv: args.tsv ?? fileConfig.reporters?.tsv,
+          junit: args.junit ?? fileConfig.reporters?.junit,
         },
       })
+
+      applyCategories(config)
+
+      ui.logger.info('Starting cold start analysis...')
+      ui.logger.info(`Entry point: ${config.entry}`)
+      if (config.production) {
+        ui.logger.info(`Profiling the production build in ${config.buildDir}/`)
+      }
+      if (commandArgs) {
+        ui.logger.info(`Command: ace ${commandArgs.join(' ')}`)
+      }
+      if (config.runs > 1 || config.warmup > 0) {
+        ui.logger.info(`Profiling ${config.runs} run(s) after ${config.warmup} warmup run(s)`)
+      }
+
+      const result = await profile(cwd, {
+        entryPoint: config.entry,
+        mode,
+        args: commandArgs,
+        runs: config.runs,
+        warmup: config.warmup,
+        readySignal: config.readySignal,
+        timeout: config.timeout,
+        partialOnTimeout: config.partialOnTimeout,
+        excludeTranspile: config.excludeTranspile,
+        production: config.production,
+        buildDir: config.buildDir,
+        includeBuiltins: config.includeBuiltins,
+        suppressOutput: config.runs + config.warmup > 1,
+      })
+
+      const checks =
+        Object.keys(config.budgets).length > 0
+          ? evaluateBudgets(result, config.budgets, cwd)
+          : undefined
+
+      const comparison = args.baseline
+        ? compareProfiles(
+            await loadProfileDocument(args.baseline),
+            { result, cwd },
+            { threshold: config.threshold }
+          )
+        : undefined
+
+      const context = {
+        result,
+        cwd,
+        entryPoint: config.entry,
+        budgets: checks,
+        comparison,
+        config,
+      }
+
+      new ConsoleReporter().render(context)
+
+      if (comparison) {
+        new ComparisonReporter().render(context)
+      }
+
+      if (config.reporters.json) {
+        await new JsonReporter(config.reporters.json).render(context)
+        ui.logger.success(`Profile written to ${config.reporters.json}`)
+      }
+
+      if (config.reporters.trace) {
+        await new TraceReporter(config.reporters.trace).render(context)
+        ui.logger.success(`Trace written to ${config.reporters.trace}`)
+      }
+
+      if (config.reporters.speedscope) {
+        await new SpeedscopeReporter(config.reporters.speedscope).render(context)
+        ui.logger.success(`Speedscope profile written to ${config.reporters.speedscope}`)
+      }
+
+      if (config.reporters.html) {
+        await new HtmlReporter(config.reporters.html).render(context)
+        ui.logger.success(`HTML report written to ${config.reporters.html}`)
+      }
+
+      if (config.reporters.markdown) {
+        await new MarkdownReporter(config.reporters.markdown).render(context)
+        ui.logger.success(`Markdown report written to ${config.reporters.markdown}`)
+      }
+
+      if (config.reporters.flamegraph) {
+        await new FlameGraphReporter(config.reporters.flamegraph).render(context)
+        ui.logger.success(`Flame graph written to ${config.reporters.flamegraph}`)
+      }
+
+      if (config.reporters.csv) {
+        await new CsvReporter(config.reporters.csv).render(context)
+        ui.logger.success(`CSV files written to ${config.reporters.csv}`)
+      }
+
+      if (config.reporters.tsv) {
+        await new CsvReporter(config.reporters.tsv, '\t').render(context)
+        ui.logger.success(`TSV files written to ${config.reporters.tsv}`)
+      }
+
+      if (config.reporters.junit) {
+        await new JunitReporter(config.reporters.junit).render(context)
+        ui.logger.success(`JUnit report written to ${config.reporters.junit}`)
+      }
+
+      if (result.partial) {
+        ui.logger.error(
+          result.exitCode === undefined
+            ? `Profiling timed out after ${config.timeout}ms, results are partial`
+            : `App exited with code ${result.exitCode} before being ready, results are partial`
+        )
+        process.exit(1)
+      }
+
+      if (result.command && result.command.exitCode !== 0) {
+        ui.logger.warning(`Command exited with code ${result.command.exitCode}`)
+      }
+
+      const violations = checks?.filter((check) => !check.passed) ?? []
+      if (violations.length > 0) {
+        ui.logger.error(`${violations.length} performance budget(s) exceeded`)
+        process.exit(1)
+      }
     } catch (error) {
       ui.logger.error('Profiling failed')
       if (error instanceof Error) {
@@ -1,5 +1,6 @@
 import { defineCommand } from 'citty'
 import { isAdonisProject, profile } from '#profiler/profiler'
+import { applyCategories, loadConfig, resolveConfig } from '#profiler/config'
 import { TuiReporter } from '#profiler/reporters/tui_reporter'
 import { ui } from '#profiler/reporters/format'
 
@@ -11,8 +12,7 @@ export const xrayCommand = defineCommand({
   args: {
     entry: {
       type: 'string',
-      description: 'Entry point to profile',
-      default: 'bin/server.ts',
+      description: 'Entry point to profile (default: bin/server.ts)',
     },
   },
   async run({ args }) {
@@ -26,22 +26,23 @@ export const xrayCommand = defineCommand({
     ui.logger.info('Starting cold start analysis...')
 
     try {
+      const config = resolveConfig(await loadConfig(cwd), { entry: args.entry })
+      applyCategories(config)
+
       const result = await profile(cwd, {
-        entryPoint: args.entry,
+        entryPoint: config.entry,
+        readySignal: config.readySignal,
+        timeout: config.timeout,
+        partialOnTimeout: config.partialOnTimeout,
+        excludeTranspile: config.excludeTranspile,
+        production: config.production,
+        buildDir: config.buildDir,
+        includeBuiltins: config.includeBuiltins,
         suppressOutput: true,
       })
 
       const reporter = new TuiReporter()
-      await reporter.render({
-        result,
-        cwd,
-        config: {
-          topModules: 20,
-          threshold: 1,
-          includeNodeModules: true,
-          groupByPackage: true,
-        },
-      })
+      await reporter.render({ result, cwd, config })
     } catch (error) {
       ui.logger.error('Profiling failed')
       if (error instanceof Error) {
@@ -0,0 +1,15 @@
+/**
+ * Parses a numeric CLI flag, keeping undefined when the flag was not
+ * passed so config file values are not overridden.
+ */
+export function parseNumber(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+
+  const number = Number(value)
+  if (value.trim() === '' || Number.isNaN(number)) {
+    throw new Error(`Invalid value "${value}" for --${flag}, expected a number`)
+  }
+  return number
+}
@@ -13,6 +13,7 @@ import { readFileSync } from 'node:fs'
 import { dirname, join } from 'node:path'
 import { fileURLToPath } from 'node:url'
 import { defineCommand, runMain } from 'citty'
+import { compareCommand } from './commands/compare.js'
 import { diagnoseCommand } from './commands/diagnose.js'
 import { xrayCommand } from './commands/xray.js'
 
@@ -27,6 +28,7 @@ const main = defineCommand({
   },
   subCommands: {
     diagnose: diagnoseCommand,
+    compare: compareCommand,
     xray: xrayCommand,
   },
 })
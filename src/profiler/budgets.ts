@@ -0,0 +1,88 @@
+/*
+|--------------------------------------------------------------------------
+| Performance Budgets
+|--------------------------------------------------------------------------
+|
+| Evaluates declared budgets (boot time, module count, module, package
+| and provider phase times) against a profile so CI can fail on
+| regressions.
+|
+*/
+
+import { readFile } from 'node:fs/promises'
+import type { BudgetCheck, PerformanceBudget, ProfileResult, ProviderPhase } from '#types'
+import { PHASE_TIME_KEYS, ProfileCollector } from './collector.js'
+import { getEffectiveTime, simplifyUrl } from '#profiler/reporters/format'
+
+/**
+ * Reads budgets from a JSON file.
+ */
+export async function loadBudget(path: string): Promise<PerformanceBudget> {
+  return JSON.parse(await readFile(path, 'utf-8')) as PerformanceBudget
+}
+
+/**
+ * Checks the profile against the budget. A module, package or provider
+ * missing from the profile fails its check, as a typo in its name would
+ * otherwise disable the check silently.
+ */
+export function evaluateBudgets(
+  result: ProfileResult,
+  budget: PerformanceBudget,
+  cwd: string
+): BudgetCheck[] {
+  const checks: BudgetCheck[] = []
+  const check = (
+    name: string,
+    actual: number | undefined,
+    limit: number,
+    unit: BudgetCheck['unit']
+  ) => {
+    if (actual === undefined) {
+      checks.push({ name, actual: 0, limit, unit, passed: false, missing: true })
+      return
+    }
+    checks.push({ name, actual, limit, unit, passed: actual <= limit })
+  }
+
+  if (budget.maxTotalTime !== undefined) {
+    check('Total boot time', result.totalTime, budget.maxTotalTime, 'ms')
+  }
+
+  if (budget.maxModules !== undefined) {
+    check('Modules loaded', result.summary.totalModules, budget.maxModules, 'modules')
+  }
+
+  for (const [path, limit] of Object.entries(budget.modules ?? {})) {
+    const key = normalizePath(path)
+    const matches = result.modules.filter(
+      (m) => normalizePath(simplifyUrl(m.resolvedUrl, cwd)) === key
+    )
+    const actual = matches.length
+      ? matches.reduce((sum, m) => sum + getEffectiveTime(m), 0)
+      : undefined
+    check(`Module ${path}`, actual, limit, 'ms')
+  }
+
+  if (budget.packages) {
+    const groups = new ProfileCollector(result.modules).groupModulesByPackage()
+    for (const [name, limit] of Object.entries(budget.packages)) {
+      const actual = groups.find((g) => g.name === name)?.exclusiveTime
+      check(`Package ${name}`, actual, limit, 'ms')
+    }
+  }
+
+  for (const [name, phases] of Object.entries(budget.providers ?? {})) {
+    const provider = result.providers.find((p) => p.name === name)
+    for (const [phase, limit] of Object.entries(phases) as Array<[ProviderPhase, number]>) {
+      const actual = provider?.[PHASE_TIME_KEYS[phase]]
+      check(`Provider ${name} ${phase}()`, actual, limit, 'ms')
+    }
+  }
+
+  return checks
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/^\.\//, '')
+}
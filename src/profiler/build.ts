@@ -0,0 +1,69 @@
+/*
+|--------------------------------------------------------------------------
+| Production Builds
+|--------------------------------------------------------------------------
+|
+| Locates the output of `node ace build` and maps the compiled files
+| loaded from it back to their sources, so reports point at the files
+| developers actually edit.
+|
+*/
+
+import { existsSync } from 'node:fs'
+import { join, relative } from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+
+/**
+ * Extensions tried, in order, when mapping a compiled file to its source
+ */
+const SOURCE_EXTENSIONS = ['.ts', '.tsx']
+
+/**
+ * Whether the directory holds a compiled AdonisJS app
+ */
+export function isAdonisBuild(path: string): boolean {
+  return existsSync(join(path, 'adonisrc.js'))
+}
+
+/**
+ * Finds the build to profile: the build directory of the app, or the
+ * current directory when running from the build itself (e.g. in a
+ * container where only the build is deployed).
+ */
+export function findBuildPath(cwd: string, buildDir: string): string | undefined {
+  const buildPath = join(cwd, buildDir)
+  if (isAdonisBuild(buildPath)) return buildPath
+  if (isAdonisBuild(cwd)) return cwd
+  return undefined
+}
+
+/**
+ * Path of the compiled file for a source entry point
+ */
+export function toCompiledPath(path: string): string {
+  return path.replace(/\.tsx?$/, '.js')
+}
+
+/**
+ * Creates a function mapping the URL of a compiled app file to its
+ * source file. Dependencies and files without a source are kept as is.
+ */
+export function createSourceMapper(cwd: string, buildPath: string): (url: string) => string {
+  const cache = new Map<string, string>()
+
+  const map = (url: string): string => {
+    if (!url.startsWith('file://') || url.includes('/node_modules/')) return url
+
+    const path = relative(buildPath, fileURLToPath(url))
+    if (path.startsWith('..') || !path.endsWith('.js')) return url
+
+    const base = join(cwd, path.slice(0, -'.js'.length))
+    const source = SOURCE_EXTENSIONS.map((ext) => base + ext).find((file) => existsSync(file))
+    return source ? pathToFileURL(source).href : url
+  }
+
+  return (url) => {
+    if (!cache.has(url)) cache.set(url, map(url))
+    return cache.get(url)!
+  }
+}
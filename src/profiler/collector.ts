@@ -3,9 +3,9 @@
 | Profile Collector
 |--------------------------------------------------------------------------
 |
-| Collects and analyzes module timing data. Computes subtree times
-| (cascading impact including dependencies) and groups modules by
-| category or package.
+| Collects and analyzes module timing data. Computes the inclusive and
+| exclusive impact of each module on the import graph and groups
+| modules by category or package.
 |
 */
 
@@ -15,31 +15,57 @@ import type {
   ModuleTiming,
   ProfileResult,
   ProfileSummary,
+  ProviderPhase,
   ProviderTiming,
   ResolvedConfig,
 } from '#types'
 import { categories } from '#registries/index'
+import { analyzeImportGraph } from './import_graph.js'
+
+/**
+ * Maps each provider lifecycle phase to its field on ProviderTiming
+ */
+export const PHASE_TIME_KEYS = {
+  register: 'registerTime',
+  boot: 'bootTime',
+  start: 'startTime',
+  ready: 'readyTime',
+  shutdown: 'shutdownTime',
+} as const satisfies Record<ProviderPhase, keyof ProviderTiming>
 
 export interface PackageGroup {
   name: string
+
+  /**
+   * Own load time of the package modules. Adds up across packages.
+   */
   totalTime: number
+
+  /**
+   * Own load time of the package modules plus the dependencies only
+   * reachable through one of them
+   */
+  exclusiveTime: number
+
   modules: ModuleTiming[]
 }
 
 export class ProfileCollector {
   readonly #modules: ModuleTiming[]
   readonly #providers: ProviderTiming[]
+  readonly #byUrl: Map<string, ModuleTiming>
 
   constructor(
     modules: ModuleTiming[] = [],
     providerPhases: Map<string, Record<string, number>> = new Map()
   ) {
     this.#modules = modules
+    this.#byUrl = new Map(modules.map((m) => [m.resolvedUrl, m]))
     this.#providers = ProfileCollector.buildProviderTimings(providerPhases)
 
-    // Compute subtree times if not already done (skip after filtering to avoid incomplete graph)
+    // Compute impact times if not already done (skip after filtering to avoid incomplete graph)
     if (modules.length > 0 && modules[0].subtreeTime === undefined) {
-      this.#populateSubtreeTimes()
+      this.#populateImpactTimes()
     }
   }
 
@@ -55,43 +81,46 @@ export class ProfileCollector {
     }))
   }
 
-  #populateSubtreeTimes(): void {
-    const byUrl = new Map(this.#modules.map((m) => [m.resolvedUrl, m]))
-    const children = new Map<string, string[]>()
+  #populateImpactTimes(): void {
+    const impacts = analyzeImportGraph(this.#modules)
 
     for (const m of this.#modules) {
-      if (m.parentUrl) {
-        const list = children.get(m.parentUrl) || []
-        list.push(m.resolvedUrl)
-        children.set(m.parentUrl, list)
-      }
+      const impact = impacts.get(m.resolvedUrl)!
+      m.subtreeTime = impact.inclusiveTime
+      m.exclusiveTime = impact.exclusiveTime
+      m.immediateDominator = impact.immediateDominator
     }
+  }
 
-    const compute = (url: string, seen: Set<string>): number => {
-      if (seen.has(url)) return 0
-      seen.add(url)
+  #time(m: ModuleTiming): number {
+    return m.subtreeTime ?? m.loadTime
+  }
 
-      const mod = byUrl.get(url)
-      if (!mod) return 0
+  #dominator(m: ModuleTiming): ModuleTiming | undefined {
+    return m.immediateDominator ? this.#byUrl.get(m.immediateDominator) : undefined
+  }
 
-      let total = mod.loadTime
-      for (const child of children.get(url) || []) {
-        total += compute(child, seen)
-      }
-      return total
-    }
+  #sumLoadTime(modules: ModuleTiming[]): number {
+    return modules.reduce((sum, m) => sum + m.loadTime, 0)
+  }
+
+  /**
+   * Attributes the own load time of every module to the closest module
+   * dominating it (itself included) that matches the predicate. Modules
+   * shared between several of them are not attributed to any.
+   */
+  #ownedTimes(owns: (m: ModuleTiming) => boolean): Map<ModuleTiming, number> {
+    const owned = new Map<ModuleTiming, number>()
 
     for (const m of this.#modules) {
-      m.subtreeTime = compute(m.resolvedUrl, new Set())
+      let owner: ModuleTiming | undefined = m
+      while (owner && !owns(owner)) {
+        owner = this.#dominator(owner)
+      }
+      if (owner) owned.set(owner, (owned.get(owner) ?? 0) + m.loadTime)
     }
-  }
-
-  #time(m: ModuleTiming): number {
-    return m.subtreeTime ?? m.loadTime
-  }
 
-  #sumTime(modules: ModuleTiming[]): number {
-    return modules.reduce((sum, m) => sum + this.#time(m), 0)
+    return owned
   }
 
   #sortByTime(modules: ModuleTiming[]): ModuleTiming[] {
@@ -116,12 +145,34 @@ export class ProfileCollector {
   }
 
   #packageName(url: string): string {
+    if (url.startsWith('node:')) return 'node:builtins'
     const match = url.match(/node_modules\/(@[^/]+\/[^/]+|[^/]+)/)
     return match?.[1] || 'app'
   }
 
+  /**
+   * Exclusive time of a set of modules, counting once the modules
+   * dominated by several of them
+   */
+  #exclusiveTime(modules: ModuleTiming[]): number {
+    const members = new Set(modules)
+
+    const hasDominatorIn = (m: ModuleTiming) => {
+      for (let current = this.#dominator(m); current; current = this.#dominator(current)) {
+        if (members.has(current)) return true
+      }
+      return false
+    }
+
+    return modules
+      .filter((m) => !hasDominatorIn(m))
+      .reduce((sum, m) => sum + (m.exclusiveTime ?? m.loadTime), 0)
+  }
+
   groupAppFilesByCategory(): AppFileGroup[] {
-    const userModules = this.#modules.filter((m) => this.#moduleCategory(m.resolvedUrl) === 'user')
+    const isUser = (m: ModuleTiming) => this.#moduleCategory(m.resolvedUrl) === 'user'
+    const userModules = this.#modules.filter(isUser)
+    const owned = this.#ownedTimes(isUser)
     const grouped = Object.groupBy(userModules, (m) => this.#appFileCategory(m.resolvedUrl))
 
     return Object.entries(grouped)
@@ -130,7 +181,7 @@ export class ProfileCollector {
         category,
         displayName: categories[category].displayName,
         files: this.#sortByTime(files),
-        totalTime: this.#sumTime(files),
+        totalTime: files.reduce((sum, m) => sum + (owned.get(m) ?? 0), 0),
       }))
       .sort((a, b) => b.totalTime - a.totalTime)
   }
@@ -142,7 +193,8 @@ export class ProfileCollector {
       .filter((e): e is [string, ModuleTiming[]] => e[1] !== undefined)
       .map(([name, mods]) => ({
         name,
-        totalTime: this.#sumTime(mods),
+        totalTime: this.#sumLoadTime(mods),
+        exclusiveTime: this.#exclusiveTime(mods),
         modules: this.#sortByTime(mods),
       }))
       .sort((a, b) => b.totalTime - a.totalTime)
@@ -156,7 +208,9 @@ export class ProfileCollector {
       userModules: grouped.user?.length ?? 0,
       nodeModules: grouped.node_modules?.length ?? 0,
       adonisModules: grouped.adonis?.length ?? 0,
-      totalModuleTime: this.#sumTime(this.#modules),
+      commonjsModules: this.#modules.filter((m) => m.format === 'commonjs').length,
+      totalModuleTime: this.#sumLoadTime(this.#modules),
+      totalTranspileTime: this.#modules.reduce((sum, m) => sum + (m.transpileTime ?? 0), 0),
       totalProviderTime: this.#providers.reduce((sum, p) => sum + p.totalTime, 0),
       appFileGroups: this.groupAppFilesByCategory(),
     }
@@ -165,7 +219,8 @@ export class ProfileCollector {
   filterModules(config: ResolvedConfig): ModuleTiming[] {
     return this.#modules.filter((m) => {
       if (this.#time(m) < config.threshold) return false
-      if (m.resolvedUrl.startsWith('node:')) return false
+      if (m.resolvedUrl.startsWith('node:') && !config.includeBuiltins) return false
+      if (config.ignore.some((pattern) => m.resolvedUrl.includes(pattern))) return false
 
       if (!config.includeNodeModules) {
         const cat = this.#moduleCategory(m.resolvedUrl)
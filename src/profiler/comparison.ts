@@ -0,0 +1,147 @@
+/*
+|--------------------------------------------------------------------------
+| Profile Comparison
+|--------------------------------------------------------------------------
+|
+| Loads saved profiles and computes per-module, per-package and
+| per-provider deltas against a baseline. Module paths are normalized
+| so profiles from different checkouts can be matched.
+|
+*/
+
+import { readFile } from 'node:fs/promises'
+import type {
+  Delta,
+  DeltaGroup,
+  EntryDelta,
+  ProfileComparison,
+  ProfileDocument,
+  ProfileSummary,
+} from '#types'
+import { ProfileCollector } from './collector.js'
+import { getEffectiveTime, simplifyUrl } from '#profiler/reporters/format'
+import { PROFILE_FORMAT_VERSION } from '#profiler/reporters/json_reporter'
+
+/**
+ * A profile along with the directory it was recorded in
+ */
+export type ComparableProfile = Pick<ProfileDocument, 'result' | 'cwd'>
+
+export interface CompareOptions {
+  /**
+   * Ignore modules, packages and providers that changed by less than this (in ms).
+   * Added and removed entries are always listed, as they change the dependency graph.
+   * @default 0
+   */
+  threshold?: number
+}
+
+type SummaryKey = keyof ProfileComparison['summary']
+
+/**
+ * Reads a profile written by the JSON reporter.
+ */
+export async function loadProfileDocument(path: string): Promise<ProfileDocument> {
+  const document = JSON.parse(await readFile(path, 'utf-8')) as ProfileDocument
+
+  if (document.formatVersion !== PROFILE_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported profile format version ${document.formatVersion} in ${path} (expected ${PROFILE_FORMAT_VERSION})`
+    )
+  }
+
+  return document
+}
+
+export function compareProfiles(
+  baseline: ComparableProfile,
+  current: ComparableProfile,
+  options: CompareOptions = {}
+): ProfileComparison {
+  const threshold = options.threshold ?? 0
+
+  return {
+    totalTime: delta(baseline.result.totalTime, current.result.totalTime),
+    summary: compareSummaries(baseline.result.summary, current.result.summary),
+    modules: diffEntries(moduleTimes(baseline), moduleTimes(current), threshold),
+    packages: diffEntries(packageTimes(baseline), packageTimes(current), threshold),
+    providers: diffEntries(providerTimes(baseline), providerTimes(current), threshold),
+  }
+}
+
+function delta(baseline: number, current: number): Delta {
+  return { baseline, current, delta: current - baseline }
+}
+
+/**
+ * Deltas of every numeric summary statistic. Listing them in an object
+ * literal makes the type checker flag any statistic left out.
+ */
+function compareSummaries(
+  baseline: ProfileSummary,
+  current: ProfileSummary
+): ProfileComparison['summary'] {
+  const diff = (key: SummaryKey) => delta(baseline[key], current[key])
+
+  return {
+    totalModules: diff('totalModules'),
+    userModules: diff('userModules'),
+    nodeModules: diff('nodeModules'),
+    adonisModules: diff('adonisModules'),
+    commonjsModules: diff('commonjsModules'),
+    totalModuleTime: diff('totalModuleTime'),
+    totalTranspileTime: diff('totalTranspileTime'),
+    totalProviderTime: diff('totalProviderTime'),
+  }
+}
+
+function moduleTimes({ result, cwd }: ComparableProfile): Map<string, number> {
+  const times = new Map<string, number>()
+  for (const m of result.modules) {
+    const key = simplifyUrl(m.resolvedUrl, cwd)
+    times.set(key, (times.get(key) ?? 0) + getEffectiveTime(m))
+  }
+  return times
+}
+
+function packageTimes({ result }: ComparableProfile): Map<string, number> {
+  const groups = new ProfileCollector(result.modules).groupModulesByPackage()
+  return new Map(groups.map((g) => [g.name, g.totalTime]))
+}
+
+function providerTimes({ result }: ComparableProfile): Map<string, number> {
+  return new Map(result.providers.map((p) => [p.name, p.totalTime]))
+}
+
+function diffEntries(
+  baseline: Map<string, number>,
+  current: Map<string, number>,
+  threshold: number
+): DeltaGroup {
+  const group: DeltaGroup = { added: [], removed: [], slower: [], faster: [] }
+
+  for (const [name, time] of current) {
+    const before = baseline.get(name)
+    if (before === undefined) {
+      group.added.push({ name, ...delta(0, time) })
+      continue
+    }
+
+    const entry: EntryDelta = { name, ...delta(before, time) }
+    if (Math.abs(entry.delta) < threshold || entry.delta === 0) continue
+    if (entry.delta > 0) group.slower.push(entry)
+    else group.faster.push(entry)
+  }
+
+  for (const [name, time] of baseline) {
+    if (!current.has(name)) group.removed.push({ name, ...delta(time, 0) })
+  }
+
+  const byMagnitude = (a: EntryDelta, b: EntryDelta) => Math.abs(b.delta) - Math.abs(a.delta)
+  group.added.sort(byMagnitude)
+  group.removed.sort(byMagnitude)
+  group.slower.sort(byMagnitude)
+  group.faster.sort(byMagnitude)
+
+  return group
+}
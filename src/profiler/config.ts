@@ -0,0 +1,106 @@
+/*
+|--------------------------------------------------------------------------
+| Configuration
+|--------------------------------------------------------------------------
+|
+| Loads the project's `docteur.config.ts` file and merges it with the
+| defaults and CLI flags, so every developer gets the same analysis.
+|
+*/
+
+import { existsSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import type { DocteurConfig, ResolvedConfig } from '#types'
+import { categories } from '#registries/index'
+
+/**
+ * Config file names looked up in the app root, in order
+ */
+export const CONFIG_FILES = ['docteur.config.ts', 'docteur.config.js', 'docteur.config.mjs']
+
+export const defaultConfig: ResolvedConfig = {
+  entry: 'bin/server.ts',
+  topModules: 20,
+  threshold: 1,
+  includeNodeModules: true,
+  includeBuiltins: false,
+  groupByPackage: true,
+  runs: 1,
+  warmup: 0,
+  readySignal: 'started HTTP server',
+  timeout: 30_000,
+  partialOnTimeout: false,
+  excludeTranspile: false,
+  production: false,
+  buildDir: 'build',
+  categories: {},
+  ignore: [],
+  budgets: {},
+  reporters: {},
+}
+
+/**
+ * Defaults of the compare command, applied before the config file so
+ * it can still override them
+ */
+export const compareDefaults: DocteurConfig = {
+  topModules: 10,
+}
+
+/**
+ * Identity helper providing type-safety in `docteur.config.ts` files.
+ */
+export function defineConfig(config: DocteurConfig): DocteurConfig {
+  return config
+}
+
+/**
+ * Finds the config file in the app root, if any.
+ */
+export function findConfigFile(cwd: string): string | undefined {
+  return CONFIG_FILES.map((file) => join(cwd, file)).find((path) => existsSync(path))
+}
+
+/**
+ * Imports the config file from the app root. TypeScript files are
+ * loaded through the app's own `@poppinss/ts-exec`.
+ */
+export async function loadConfig(cwd: string): Promise<DocteurConfig> {
+  const configPath = findConfigFile(cwd)
+  if (!configPath) {
+    return {}
+  }
+
+  if (configPath.endsWith('.ts')) {
+    const require = createRequire(join(cwd, 'node_modules', '_'))
+    await import(pathToFileURL(require.resolve('@poppinss/ts-exec')).href)
+  }
+
+  const module = (await import(pathToFileURL(configPath).href)) as { default?: DocteurConfig }
+  return module.default ?? {}
+}
+
+/**
+ * Merges config layers over the defaults. Later layers win, and
+ * undefined values (e.g. CLI flags that were not passed) are skipped.
+ */
+export function resolveConfig(...layers: DocteurConfig[]): ResolvedConfig {
+  const resolved: ResolvedConfig = { ...defaultConfig }
+
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) Object.assign(resolved, { [key]: value })
+    }
+  }
+
+  return resolved
+}
+
+/**
+ * Registers the custom categories from the config in the categories registry.
+ */
+export function applyCategories(config: ResolvedConfig): void {
+  Object.assign(categories, config.categories)
+}
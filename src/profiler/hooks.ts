@@ -4,8 +4,16 @@
 |--------------------------------------------------------------------------
 |
 | Tracks module loading times and parent-child relationships.
-| - resolve: captures which module imported which (for subtree calculation)
-| - load: measures how long each module takes to load
+| - resolve: captures every import edge with its specifier (for the import graph),
+|   including imports of Node.js builtins
+| - load: measures how long each module takes to load, and instruments
+|   ES modules to report when their body starts and ends evaluating
+|
+| Load starts are reported too, so modules that never finish loading
+| show up in partial results.
+|
+| When profiling the test runner, the load of the first spec file
+| signals that the test suite finished booting.
 |
 */
 
@@ -13,33 +21,95 @@ import type { InitializeHook, LoadHook, ResolveHook } from 'node:module'
 import { performance } from 'node:perf_hooks'
 import type { MessagePort } from 'node:worker_threads'
 
+const SPEC_FILE_PATTERN = /\.spec\.[cm]?[jt]sx?$/
+const SOURCE_MAP_PATTERN = /\n\/\/# sourceMappingURL=[^\n]*\s*$/
+
+/**
+ * Calls the evaluation tracker installed by the loader on the main thread
+ */
+const track = (event: 'start' | 'end') =>
+  `globalThis[Symbol.for('docteur.evaluation')]?.${event}(import.meta.url);`
+
 let port: MessagePort
+let signalSpecFiles = false
 
-export const initialize: InitializeHook<{ port: MessagePort }> = (data) => {
+export const initialize: InitializeHook<{ port: MessagePort; signalSpecFiles?: boolean }> = (
+  data
+) => {
   port = data.port
+  signalSpecFiles = data.signalSpecFiles ?? false
 }
 
 export const resolve: ResolveHook = async (specifier, context, next) => {
   const result = await next(specifier, context)
 
-  if (context.parentURL && result.url.startsWith('file://')) {
-    port.postMessage({ type: 'parent', child: result.url, parent: context.parentURL })
+  if (context.parentURL && /^(file|node):/.test(result.url)) {
+    port.postMessage({ type: 'import', child: result.url, parent: context.parentURL, specifier })
   }
 
   return result
 }
 
 export const load: LoadHook = async (url, context, next) => {
+  if (url.startsWith('node:')) {
+    const start = performance.now()
+    const result = await next(url, context)
+    port.postMessage({
+      type: 'timing',
+      url,
+      format: 'builtin',
+      loadTime: performance.now() - start,
+    })
+    return result
+  }
+
   if (!url.startsWith('file://')) {
     return next(url, context)
   }
 
+  if (signalSpecFiles && SPEC_FILE_PATTERN.test(url)) {
+    signalSpecFiles = false
+    port.postMessage({ type: 'ready', time: performance.timeOrigin + performance.now() })
+  }
+
   const start = performance.now()
+  port.postMessage({ type: 'loadStart', url, time: performance.timeOrigin + start })
+
   const result = await next(url, context)
+  port.postMessage({
+    type: 'timing',
+    url,
+    format: result.format,
+    loadTime: performance.now() - start,
+  })
 
-  if (result.format === 'module') {
-    port.postMessage({ type: 'timing', url, loadTime: performance.now() - start })
+  if (result.format !== 'module' || result.source === undefined || result.source === null) {
+    return result
   }
 
-  return result
+  const source =
+    typeof result.source === 'string' ? result.source : new TextDecoder().decode(result.source)
+
+  return { ...result, source: instrument(source) }
+}
+
+/**
+ * Wraps the module body with evaluation markers. Imports are hoisted,
+ * so the start marker runs once the dependencies are evaluated, and the
+ * end marker after any top-level await. Markers are added without new
+ * lines to keep positions in stack traces, and before the source map
+ * comment so it stays last.
+ */
+function instrument(source: string): string {
+  const bodyStart = source.startsWith('#!') ? source.indexOf('\n') + 1 : 0
+  const sourceMap = source.match(SOURCE_MAP_PATTERN)
+  const bodyEnd = sourceMap ? sourceMap.index! : source.length
+
+  return (
+    source.slice(0, bodyStart) +
+    track('start') +
+    source.slice(bodyStart, bodyEnd) +
+    `\n;${track('end')}` +
+    source.slice(bodyEnd)
+  )
 }
@@ -0,0 +1,225 @@
+/*
+|--------------------------------------------------------------------------
+| Import Graph Analysis
+|--------------------------------------------------------------------------
+|
+| Computes the impact of each module on the import DAG:
+| - inclusive: the module plus everything it transitively imports
+| - exclusive: the module plus everything only reachable through it,
+|   i.e. what would disappear if it were removed (dominator tree)
+|
+*/
+
+import type { ModuleTiming } from '#types'
+
+export interface ModuleImpact {
+  inclusiveTime: number
+  exclusiveTime: number
+  immediateDominator?: string
+}
+
+/**
+ * Analyzes the import graph formed by the importers of each module.
+ * Modules without importers (entry points) hang off a virtual root.
+ */
+export function analyzeImportGraph(modules: ModuleTiming[]): Map<string, ModuleImpact> {
+  const count = modules.length
+  const root = count
+  const index = new Map(modules.map((m, i) => [m.resolvedUrl, i]))
+  const preds: number[][] = modules.map(() => [])
+  const succs: number[][] = Array.from({ length: count + 1 }, () => [])
+
+  modules.forEach((m, i) => {
+    const urls = m.importers?.map((importer) => importer.url) ?? [m.parentUrl]
+    for (const url of new Set(urls)) {
+      const importer = url === undefined ? undefined : index.get(url)
+      if (importer === undefined || importer === i) continue
+      preds[i].push(importer)
+      succs[importer].push(i)
+    }
+  })
+
+  const link = (i: number) => {
+    preds[i].push(root)
+    succs[root].push(i)
+  }
+
+  modules.forEach((_, i) => preds[i].length === 0 && link(i))
+
+  /**
+   * Postorder numbering from the virtual root. Modules only reachable
+   * through import cycles are linked to the root as well, once the
+   * root ran out of modules to visit.
+   */
+  const postorder: number[] = []
+  const order = new Array<number>(count + 1).fill(-1)
+  const visited = new Array<boolean>(count + 1).fill(false)
+  const stack: Array<[number, number]> = [[root, 0]]
+  let unvisited = 0
+  visited[root] = true
+
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1]
+    const next = succs[frame[0]][frame[1]++]
+
+    if (next === undefined && frame[0] === root) {
+      while (unvisited < count && visited[unvisited]) unvisited++
+      if (unvisited < count) {
+        frame[1]--
+        link(unvisited)
+        continue
+      }
+    }
+
+    if (next === undefined) {
+      order[frame[0]] = postorder.length
+      postorder.push(frame[0])
+      stack.pop()
+    } else if (!visited[next]) {
+      visited[next] = true
+      stack.push([next, 0])
+    }
+  }
+
+  /**
+   * Immediate dominators (Cooper, Harvey & Kennedy, "A Simple, Fast
+   * Dominance Algorithm")
+   */
+  const idom = new Array<number>(count + 1).fill(-1)
+  idom[root] = root
+
+  const intersect = (a: number, b: number) => {
+    while (a !== b) {
+      while (order[a] < order[b]) a = idom[a]
+      while (order[b] < order[a]) b = idom[b]
+    }
+    return a
+  }
+
+  const reversePostorder = [...postorder].reverse().filter((i) => i !== root)
+  let changed = true
+  while (changed) {
+    changed = false
+    for (const i of reversePostorder) {
+      let dominator = -1
+      for (const p of preds[i]) {
+        if (idom[p] === -1) continue
+        dominator = dominator === -1 ? p : intersect(p, dominator)
+      }
+      if (dominator !== idom[i]) {
+        idom[i] = dominator
+        changed = true
+      }
+    }
+  }
+
+  // Dominated modules are visited before their dominator in postorder
+  const exclusive = modules.map((m) => m.loadTime)
+  for (const i of postorder) {
+    if (i !== root && idom[i] !== root) exclusive[idom[i]] += exclusive[i]
+  }
+
+  const inclusive = reachableTimes(succs, modules)
+  const impacts = new Map<string, ModuleImpact>()
+  modules.forEach((m, i) => {
+    impacts.set(m.resolvedUrl, {
+      inclusiveTime: inclusive[i],
+      exclusiveTime: exclusive[i],
+      immediateDominator: idom[i] === root ? undefined : modules[idom[i]].resolvedUrl,
+    })
+  })
+
+  return impacts
+}
+
+/**
+ * Sums the load time of each module and every module reachable from it,
+ * counting shared dependencies once. Modules of an import cycle reach the
+ * same modules, so reachable sets are computed once per strongly connected
+ * component, as bitsets merged from the components it imports. Tarjan's
+ * algorithm closes components after every component they reach.
+ */
+function reachableTimes(succs: number[][], modules: ModuleTiming[]): number[] {
+  const count = modules.length
+  const words = Math.ceil(count / 32)
+  const times = new Array<number>(count).fill(0)
+  const reachable: Uint32Array[] = []
+  const component = new Array<number>(count).fill(-1)
+  const index = new Array<number>(count).fill(-1)
+  const lowlink = new Array<number>(count).fill(0)
+  const onStack = new Array<boolean>(count).fill(false)
+  const stack: number[] = []
+  let counter = 0
+
+  const close = (head: number) => {
+    const id = reachable.length
+    const set = new Uint32Array(words)
+    const members: number[] = []
+    let member: number
+
+    do {
+      member = stack.pop()!
+      onStack[member] = false
+      component[member] = id
+      members.push(member)
+      set[member >>> 5] |= 1 << (member & 31)
+    } while (member !== head)
+
+    const merged = new Set([id])
+    for (const next of members.flatMap((m) => succs[m])) {
+      if (merged.has(component[next])) continue
+      merged.add(component[next])
+      const other = reachable[component[next]]
+      for (let w = 0; w < words; w++) set[w] |= other[w]
+    }
+
+    reachable.push(set)
+    const total = sumBits(set, modules)
+    for (const m of members) times[m] = total
+  }
+
+  const open = (node: number) => {
+    index[node] = lowlink[node] = counter++
+    stack.push(node)
+    onStack[node] = true
+  }
+
+  for (let start = 0; start < count; start++) {
+    if (index[start] !== -1) continue
+
+    open(start)
+    const frames: Array<[number, number]> = [[start, 0]]
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1]
+      const node = frame[0]
+      const next = succs[node][frame[1]++]
+
+      if (next === undefined) {
+        frames.pop()
+        if (lowlink[node] === index[node]) close(node)
+        if (frames.length > 0) {
+          const parent = frames[frames.length - 1][0]
+          lowlink[parent] = Math.min(lowlink[parent], lowlink[node])
+        }
+      } else if (index[next] === -1) {
+        open(next)
+        frames.push([next, 0])
+      } else if (onStack[next]) {
+        lowlink[node] = Math.min(lowlink[node], index[next])
+      }
+    }
+  }
+
+  return times
+}
+
+function sumBits(set: Uint32Array, modules: ModuleTiming[]): number {
+  let total = 0
+  for (const [w, word] of set.entries()) {
+    for (let bits = word; bits !== 0; bits &= bits - 1) {
+      total += modules[w * 32 + 31 - Math.clz32(bits & -bits)].loadTime
+    }
+  }
+  return total
+}
@@ -3,26 +3,40 @@
 | Profiler Loader
 |--------------------------------------------------------------------------
 |
-| Registers ESM hooks for module timing and subscribes to AdonisJS
-| tracing channels for provider lifecycle timing.
+| Registers ESM hooks for module timing, wraps the CommonJS loader to
+| time `require()` calls, and subscribes to AdonisJS tracing channels
+| for provider lifecycle timing.
+|
+| Load times measured around @poppinss/ts-exec by the transpile loader
+| are recorded here too, to split transpilation from reading the source.
+|
+| Results are sent over IPC on request or once the first spec file
+| loads (test runner), or written to DOCTEUR_RESULTS_FILE when the
+| process exits (ace commands).
 |
 */
 
-import { createRequire, register } from 'node:module'
-import { join } from 'node:path'
+import { writeFileSync } from 'node:fs'
+import Module, { createRequire, isBuiltin, register } from 'node:module'
+import { isAbsolute, join } from 'node:path'
 import { performance } from 'node:perf_hooks'
+import { pathToFileURL } from 'node:url'
 import { MessageChannel } from 'node:worker_threads'
 
 type TracingChannel = {
-  subscribe(handlers: {
-    start(msg: unknown): void
-    end(msg: unknown): void
-    asyncStart(msg: unknown): void
-    asyncEnd(msg: unknown): void
-    error(): void
-  }): void
+  subscribe(
+    handlers: Partial<{
+      start(msg: unknown): void
+      end(msg: unknown): void
+      asyncStart(msg: unknown): void
+      asyncEnd(msg: unknown): void
+      error(msg: unknown): void
+    }>
+  ): void
 }
 
+const TYPESCRIPT_FILE = /\.[cm]?tsx?$/
+
 const require = createRequire(join(process.cwd(), 'node_modules', '_'))
 const { tracingChannels } = require('@adonisjs/application') as {
   tracingChannels: Record<string, TracingChannel>
@@ -31,32 +45,235 @@ const { tracingChannels } = require('@adonisjs/application') as {
 /**
  * Module timing data collected via ESM hooks
  */
-const parents = new Map<string, string>()
+const importers = new Map<string, Array<{ url: string; specifier: string }>>()
 const loadTimes = new Map<string, number>()
+const formats = new Map<string, string>()
+
+/**
+ * Module formats reported with their timings. Modules loaded otherwise,
+ * e.g. from `data:` URLs, are not tracked.
+ */
+const TRACKED_FORMATS = new Set(['module', 'commonjs', 'json', 'wasm', 'builtin'])
+
+/**
+ * Modules being loaded, with their absolute start time
+ */
+const pendingModules = new Map<string, number>()
+
+/**
+ * When each module started loading and finished evaluating, in ms
+ * since the process started
+ */
+const startTimes = new Map<string, number>()
+const endTimes = new Map<string, number>()
+
+/**
+ * Timing messages from the hooks may be received after the module was
+ * evaluated, so the latest end wins
+ */
+function recordSpan(url: string, start: number, end: number) {
+  if (!startTimes.has(url)) startTimes.set(url, start)
+  endTimes.set(url, Math.max(endTimes.get(url) ?? 0, end))
+}
+
+/**
+ * Time spent running each module body, reported by the markers the
+ * hooks add to the module source
+ */
+const evaluationTimes = new Map<string, number>()
+const evaluationStarts = new Map<string, number>()
+
+Object.assign(globalThis, {
+  [Symbol.for('docteur.evaluation')]: {
+    start(url: string) {
+      evaluationStarts.set(url, performance.now())
+    },
+    end(url: string) {
+      const start = evaluationStarts.get(url)
+      if (start === undefined) return
+      const end = performance.now()
+      evaluationTimes.set(url, end - start)
+      evaluationStarts.delete(url)
+      endTimes.set(url, Math.max(endTimes.get(url) ?? 0, end))
+    },
+  },
+})
 
 const { port1, port2 } = new MessageChannel()
-port1.unref()
 
 port1.on('message', (msg: { type: string; [k: string]: unknown }) => {
-  if (msg.type === 'parent') parents.set(msg.child as string, msg.parent as string)
-  else if (msg.type === 'timing') loadTimes.set(msg.url as string, msg.loadTime as number)
+  if (msg.type === 'import') recordImport(msg.child as string, msg.parent as string, msg.specifier)
+  else if (msg.type === 'loadStart') recordLoadStart(msg.url as string, msg.time as number)
+  else if (msg.type === 'timing') recordTiming(msg.url as string, msg.format, msg.loadTime)
+  else if (msg.type === 'ready') reportReady(msg.time as number)
 })
 
+/**
+ * Keeps every importer of a module, once per specifier, as modules can
+ * be resolved several times for the same import
+ */
+function recordImport(url: string, parent: string, specifier: unknown) {
+  const list = importers.get(url) ?? []
+  if (!list.some((i) => i.url === parent && i.specifier === specifier)) {
+    list.push({ url: parent, specifier: specifier as string })
+  }
+  importers.set(url, list)
+}
+
+function recordLoadStart(url: string, time: number) {
+  pendingModules.set(url, time)
+  if (!startTimes.has(url)) startTimes.set(url, time - performance.timeOrigin)
+}
+
+function recordTiming(url: string, format: unknown, loadTime: unknown) {
+  pendingModules.delete(url)
+  if (!TRACKED_FORMATS.has(format as string)) return
+  loadTimes.set(url, loadTime as number)
+  formats.set(url, format as string)
+
+  const start = startTimes.get(url)
+  if (start !== undefined) recordSpan(url, start, start + (loadTime as number))
+}
+
+/**
+ * Load times including transpilation, for TypeScript files
+ */
+const outerLoadTimes = new Map<string, number>()
+
+export function recordOuterTiming(url: string, loadTime: number) {
+  if (TYPESCRIPT_FILE.test(url)) outerLoadTimes.set(url, loadTime)
+}
+
+/**
+ * Transpilation time of each module: the part of the load time measured
+ * around ts-exec that was not spent reading the source
+ */
+function collectTranspileTimes() {
+  const times: Record<string, number> = {}
+  for (const [url, outer] of outerLoadTimes) {
+    const inner = loadTimes.get(url)
+    if (inner !== undefined) times[url] = Math.max(outer - inner, 0)
+  }
+  return times
+}
+
+/**
+ * Unref'd after attaching the listener, which refs the port again
+ */
+port1.unref()
+
 register('./hooks.js', {
   parentURL: import.meta.url,
-  data: { port: port2 },
+  data: { port: port2, signalSpecFiles: process.env.DOCTEUR_MODE === 'test' },
   transferList: [port2],
 })
 
+/**
+ * CommonJS timing. `require()` calls, including those of `createRequire`
+ * and of CommonJS modules imported from ES modules, go through
+ * `Module._load`, which loads and evaluates the module synchronously.
+ * The time of nested requires is subtracted to get the self time.
+ */
+type CommonJSModule = { filename?: string }
+type CommonJSLoader = {
+  _load(request: string, parent: CommonJSModule | undefined, isMain: boolean): unknown
+  _resolveFilename(request: string, parent: CommonJSModule | undefined, isMain: boolean): string
+  _cache: Record<string, { loaded: boolean } | undefined>
+}
+
+const requireTimes = new Map<string, number>()
+const nestedRequireTimes: number[] = []
+const cjsLoader = Module as unknown as CommonJSLoader
+const load = cjsLoader._load
+
+cjsLoader._load = function (request, parent, isMain) {
+  if (isBuiltin(request)) {
+    const url = request.startsWith('node:') ? request : `node:${request}`
+    if (parent?.filename) recordImport(url, pathToFileURL(parent.filename).href, request)
+    return load.call(this, request, parent, isMain)
+  }
+
+  const filename = resolveFilename(request, parent, isMain)
+  if (!filename) return load.call(this, request, parent, isMain)
+
+  const url = pathToFileURL(filename).href
+  if (parent?.filename) recordImport(url, pathToFileURL(parent.filename).href, request)
+  // Modules imported from ES modules are cached before being loaded
+  if (cjsLoader._cache[filename]?.loaded) return load.call(this, request, parent, isMain)
+
+  nestedRequireTimes.push(0)
+  const start = performance.now()
+  try {
+    return load.call(this, request, parent, isMain)
+  } finally {
+    const elapsed = performance.now() - start
+    const nested = nestedRequireTimes.pop()!
+    if (nestedRequireTimes.length > 0) nestedRequireTimes[nestedRequireTimes.length - 1] += elapsed
+    requireTimes.set(url, elapsed - nested)
+    recordSpan(url, start, start + elapsed)
+  }
+}
+
+function resolveFilename(request: string, parent: CommonJSModule | undefined, isMain: boolean) {
+  try {
+    const filename = cjsLoader._resolveFilename(request, parent, isMain)
+    return isAbsolute(filename) ? filename : undefined
+  } catch {
+    // Let the loader throw the resolution error
+    return undefined
+  }
+}
+
+/**
+ * Load times of all modules. CommonJS modules imported from ES modules
+ * are reported by the hooks too, but only for reading their source.
+ * Builtins only required from CommonJS are already loaded by Node.js.
+ */
+function collectLoadTimes() {
+  const times = Object.fromEntries(loadTimes)
+  for (const [url, time] of requireTimes) {
+    times[url] = (times[url] ?? 0) + time
+  }
+  for (const url of importers.keys()) {
+    if (url.startsWith('node:')) times[url] ??= 0
+  }
+  return times
+}
+
+function collectFormats() {
+  const result = Object.fromEntries(formats)
+  for (const url of requireTimes.keys()) {
+    result[url] ??= url.endsWith('.json') ? 'json' : 'commonjs'
+  }
+  for (const url of importers.keys()) {
+    if (url.startsWith('node:')) result[url] = 'builtin'
+  }
+  return result
+}
+
 /**
  * Provider lifecycle timing via tracing channels.
  *
  * Tracing channels emit: start → end (sync) or start → end → asyncStart → asyncEnd (async).
- * We defer sync recording with setTimeout so asyncStart can claim the phase first.
+ * `traceSync` sets the result (or error) on the message before `end`, while `tracePromise`
+ * only sets it once settled, so async phases are recorded on `asyncEnd` and a phase that
+ * never settles stays in `starts`.
  */
 const providerPhases = new Map<string, Record<string, number>>()
+const providerSpans = new Map<string, Record<string, { start: number; end: number }>>()
 const starts = new Map<string, number>()
-const asyncPhases = new Set<string>()
+
+/**
+ * End of the last provider lifecycle phase before shutdown, marking
+ * the end of the app boot
+ */
+let bootEnd = 0
+
+/**
+ * Errors thrown by provider lifecycle methods
+ */
+const providerErrors: Array<{ provider: string; phase: string; message: string; stack?: string }> =
+  []
 
 function name(msg: unknown) {
   return (msg as { provider: { constructor: { name: string } } }).provider.constructor.name
@@ -69,7 +286,10 @@ function record(provider: string, phase: string, endTime: number) {
   const phases = providerPhases.get(provider) ?? {}
   phases[phase] = endTime - start
   providerPhases.set(provider, phases)
+  providerSpans.set(provider, { ...providerSpans.get(provider), [phase]: { start, end: endTime } })
   starts.delete(`${provider}:${phase}`)
+
+  if (phase !== 'shutdown') bootEnd = Math.max(bootEnd, endTime)
 }
 
 const phases = ['register', 'boot', 'start', 'ready', 'shutdown'] as const
@@ -83,22 +303,79 @@ for (const phase of phases) {
       starts.set(`${name(msg)}:${phase}`, performance.now())
     },
     end(msg) {
-      const provider = name(msg)
-      const endTime = performance.now()
-      const key = `${provider}:${phase}`
-      setTimeout(() => {
-        if (!asyncPhases.has(key)) record(provider, phase, endTime)
-      }, 0)
-    },
-    asyncStart(msg) {
-      asyncPhases.add(`${name(msg)}:${phase}`)
+      const settled = 'result' in (msg as object) || 'error' in (msg as object)
+      if (settled) record(name(msg), phase, performance.now())
     },
     asyncEnd(msg) {
-      const provider = name(msg)
-      record(provider, phase, performance.now())
-      asyncPhases.delete(`${provider}:${phase}`)
+      record(name(msg), phase, performance.now())
     },
-    error() {},
+    error(msg) {
+      const { error } = msg as { error: unknown }
+      providerErrors.push({
+        provider: name(msg),
+        phase,
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      })
+    },
+  })
+}
+
+/**
+ * Modules, module evaluations and provider phases that started but did
+ * not finish yet, with the time elapsed so far
+ */
+function collectPending() {
+  const now = performance.now()
+  const modules = [...pendingModules].map(([url, start]) => [
+    url,
+    performance.timeOrigin + now - start,
+  ])
+
+  const pendingPhases: Record<string, Record<string, number>> = {}
+  const pendingSpans: Record<string, Record<string, { start: number; end: number }>> = {}
+  for (const [key, start] of starts) {
+    const [provider, phase] = key.split(':')
+    pendingPhases[provider] = { ...pendingPhases[provider], [phase]: now - start }
+    pendingSpans[provider] = { ...pendingSpans[provider], [phase]: { start, end: now } }
+  }
+
+  const pendingEvaluations = [...evaluationStarts].map(([url, start]) => [url, now - start])
+
+  return {
+    pendingModules: Object.fromEntries(modules),
+    pendingEvaluations: Object.fromEntries(pendingEvaluations),
+    pendingPhases,
+    pendingSpans,
+  }
+}
+
+function collectResults() {
+  return {
+    loadTimes: collectLoadTimes(),
+    formats: collectFormats(),
+    evaluationTimes: Object.fromEntries(evaluationTimes),
+    transpileTimes: collectTranspileTimes(),
+    importers: Object.fromEntries(importers),
+    startTimes: Object.fromEntries(startTimes),
+    endTimes: Object.fromEntries(endTimes),
+    providerPhases: Object.fromEntries(providerPhases),
+    providerSpans: Object.fromEntries(providerSpans),
+    providerErrors,
+    bootEnd,
+    ...collectPending(),
+  }
+}
+
+/**
+ * IPC: send results as soon as the test suite is ready. Timings of the
+ * modules loaded before the first spec file were received before the
+ * ready message, as the hooks port delivers messages in order.
+ */
+function reportReady(time: number) {
+  process.send?.({
+    type: 'results',
+    data: { ...collectResults(), readyTime: time - performance.timeOrigin },
   })
 }
 
@@ -108,14 +385,18 @@ for (const phase of phases) {
 if (process.send) {
   process.on('message', (msg: { type: string }) => {
     if (msg.type !== 'getResults') return
+    process.send!({ type: 'results', data: { ...collectResults(), readyTime: performance.now() } })
+  })
+}
 
-    process.send!({
-      type: 'results',
-      data: {
-        loadTimes: Object.fromEntries(loadTimes),
-        parents: Object.fromEntries(parents),
-        providerPhases: Object.fromEntries(providerPhases),
-      },
-    })
+/**
+ * Exit: write collected results for processes that end on their own.
+ * The IPC channel is unref'd so it does not keep the process alive.
+ */
+const resultsFile = process.env.DOCTEUR_RESULTS_FILE
+if (resultsFile) {
+  process.channel?.unref()
+  process.on('exit', () => {
+    writeFileSync(resultsFile, JSON.stringify({ ...collectResults(), exitTime: performance.now() }))
   })
 }
@@ -9,88 +9,280 @@
 */
 
 import { fork } from 'node:child_process'
-import { existsSync } from 'node:fs'
+import { existsSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
 import { join } from 'node:path'
-import type { ModuleTiming, ProfileResult } from '#types'
-import { ProfileCollector } from './collector.js'
-import { simplifyUrl } from '#profiler/reporters/format'
+import type { ProfileMode, ProfileResult } from '#types'
+import { aggregateResults } from './statistics.js'
+import { createSourceMapper, findBuildPath, isAdonisBuild, toCompiledPath } from './build.js'
+import { ReadinessWatcher } from './readiness.js'
+import {
+  applyResults,
+  buildResults,
+  createProfilerState,
+  type ProfilerState,
+  type ResultsData,
+} from './results.js'
 
 const TIMEOUT_MS = 30_000
 
-type ResultsData = {
-  loadTimes: Record<string, number>
-  parents: Record<string, string>
-  providerPhases: Record<string, Record<string, number>>
-}
+/**
+ * Time given to the app to report partial results after a timeout
+ */
+const PARTIAL_RESULTS_GRACE_MS = 2000
 
-interface ProfilerState {
-  providerPhases: Map<string, Record<string, number>>
-  loadTimes: Map<string, number>
-  parents: Map<string, string>
-  bootDuration?: [number, number]
-  done: boolean
+/**
+ * Entry point profiled by default in each mode
+ */
+export const DEFAULT_ENTRY_POINTS: Record<ProfileMode, string> = {
+  web: 'bin/server.ts',
+  ace: 'bin/console.ts',
+  test: 'bin/test.ts',
 }
-
 export interface ProfileOptions {
   entryPoint?: string
   suppressOutput?: boolean
+
+  /**
+   * Profile the HTTP server until it starts listening, an ace command
+   * until the process exits, or the test runner until the first spec
+   * file loads
+   * @default 'web'
+   */
+  mode?: ProfileMode
+
+  /**
+   * Readiness signal of the HTTP server, matched against the app's
+   * stdout and IPC messages. Only needed when the app does not send
+   * the AdonisJS IPC messages, e.g. with a custom server.
+   * @default 'started HTTP server'
+   */
+  readySignal?: string
+
+  /**
+   * Arguments passed to the entry point, i.e. the ace command name
+   * followed by its arguments and flags
+   */
+  args?: string[]
+
+  /**
+   * Maximum time to wait for the app to be ready, in milliseconds
+   * @default 30000
+   */
+  timeout?: number
+
+  /**
+   * On timeout, report what was collected so far instead of failing.
+   * Modules and provider phases still running are marked incomplete.
+   * @default false
+   */
+  partialOnTimeout?: boolean
+
+  /**
+   * Report production-equivalent numbers, leaving out the time spent
+   * transpiling TypeScript files on the fly
+   * @default false
+   */
+  excludeTranspile?: boolean
+
+  /**
+   * Keep imports of Node.js builtins in the results
+   * @default false
+   */
+  includeBuiltins?: boolean
+
+  /**
+   * Profile the production build output by `node ace build`: plain
+   * JavaScript from the build directory, with NODE_ENV=production
+   * @default false
+   */
+  production?: boolean
+
+  /**
+   * Build directory, relative to the app root
+   * @default 'build'
+   */
+  buildDir?: string
+
+  /**
+   * Number of measured runs. With more than one run, timings are
+   * aggregated and reported as medians.
+   * @default 1
+   */
+  runs?: number
+
+  /**
+   * Number of runs executed before the measured ones and discarded,
+   * to warm up disk caches
+   * @default 0
+   */
+  warmup?: number
 }
 
 export function findLoaderPath(): string {
   return import.meta.resolve('@densetsuuu/docteur/profiler/loader')
 }
 
-export function findEntryPoint(cwd: string, entry?: string): string {
-  const entryPath = join(cwd, entry || 'bin/server.ts')
+export function findTranspileLoaderPath(): string {
+  return import.meta.resolve('@densetsuuu/docteur/profiler/transpile_loader')
+}
+
+export function findEntryPoint(cwd: string, entry?: string, mode: ProfileMode = 'web'): string {
+  const entryPath = join(cwd, entry || DEFAULT_ENTRY_POINTS[mode])
   if (!existsSync(entryPath)) {
     throw new Error(`Entry point not found: ${entryPath}`)
   }
   return entryPath
 }
 
+/**
+ * Whether the directory holds an AdonisJS app, either its sources or a
+ * build deployed on its own
+ */
 export function isAdonisProject(cwd: string): boolean {
-  return existsSync(join(cwd, 'adonisrc.ts')) || existsSync(join(cwd, '.adonisrc.ts'))
+  return (
+    existsSync(join(cwd, 'adonisrc.ts')) ||
+    existsSync(join(cwd, '.adonisrc.ts')) ||
+    isAdonisBuild(cwd)
+  )
 }
 
 export async function profile(cwd: string, options: ProfileOptions = {}): Promise<ProfileResult> {
+  if (options.production) {
+    return profileBuild(cwd, options)
+  }
+
+  const entryPoint = findEntryPoint(cwd, options.entryPoint, options.mode)
+  return profileRuns(cwd, cwd, entryPoint, options)
+}
+
+/**
+ * Profiles the compiled app from its build directory. Reports still
+ * point at the source files, relative to the app root.
+ */
+async function profileBuild(cwd: string, options: ProfileOptions): Promise<ProfileResult> {
+  const buildDir = options.buildDir ?? 'build'
+  const buildPath = findBuildPath(cwd, buildDir)
+  if (!buildPath) {
+    throw new Error(
+      `No production build found in ${join(cwd, buildDir)}. Run "node ace build" first.`
+    )
+  }
+
+  const entry = toCompiledPath(options.entryPoint || DEFAULT_ENTRY_POINTS[options.mode ?? 'web'])
+  const entryPoint = findEntryPoint(buildPath, entry, options.mode)
+  const result = await profileRuns(
+    cwd,
+    buildPath,
+    entryPoint,
+    options,
+    createSourceMapper(cwd, buildPath)
+  )
+
+  result.production = true
+  return result
+}
+
+async function profileRuns(
+  cwd: string,
+  processCwd: string,
+  entryPoint: string,
+  options: ProfileOptions,
+  sourceUrl: (url: string) => string = (url) => url
+): Promise<ProfileResult> {
   const loaderPath = findLoaderPath()
-  const entryPoint = findEntryPoint(cwd, options.entryPoint)
-  const state = await runProfiledProcess(loaderPath, entryPoint, cwd, options)
-  return buildResults(state, cwd)
+  const runs = options.runs ?? 1
+  const warmup = options.warmup ?? 0
+  const results: ProfileResult[] = []
+
+  for (let run = 0; run < warmup + runs; run++) {
+    const state = await runProfiledProcess(loaderPath, entryPoint, processCwd, options, sourceUrl)
+    const result = buildResults(state, cwd, options)
+
+    // A run that timed out cannot be compared with complete ones
+    if (result.partial) return result
+    if (run >= warmup) results.push(result)
+  }
+
+  return results.length === 1 ? results[0] : aggregateResults(results)
 }
 
 function runProfiledProcess(
   loaderPath: string,
   entryPoint: string,
   cwd: string,
-  options: ProfileOptions
+  options: ProfileOptions,
+  sourceUrl: (url: string) => string
 ): Promise<ProfilerState> {
   const suppressOutput = options.suppressOutput ?? false
+  const mode = options.mode ?? 'web'
+  const readySignal = options.readySignal ?? 'started HTTP server'
+  const timeoutMs = options.timeout ?? TIMEOUT_MS
+  const resultsFile = join(tmpdir(), `docteur-${process.pid}-${Date.now()}.json`)
 
   return new Promise((resolve, reject) => {
-    const state: ProfilerState = {
-      providerPhases: new Map(),
-      loadTimes: new Map(),
-      parents: new Map(),
-      done: false,
-    }
+    const state = createProfilerState(sourceUrl)
 
-    const child = fork(entryPoint, [], {
+    const child = fork(entryPoint, options.args ?? [], {
       cwd,
       stdio: ['pipe', 'pipe', 'pipe', 'ipc'],
-      execArgv: ['--import', loaderPath, '--import', '@poppinss/ts-exec', '--no-warnings'],
-      env: { ...process.env, DOCTEUR_PROFILING: 'true' },
+      execArgv: options.production
+        ? ['--import', loaderPath, '--no-warnings']
+        : [
+            '--import',
+            loaderPath,
+            '--import',
+            '@poppinss/ts-exec',
+            '--import',
+            findTranspileLoaderPath(),
+            '--no-warnings',
+          ],
+      env: {
+        ...process.env,
+        ...(options.production ? { NODE_ENV: 'production' } : {}),
+        DOCTEUR_PROFILING: 'true',
+        DOCTEUR_MODE: mode,
+        DOCTEUR_RESULTS_FILE: resultsFile,
+      },
     })
 
-    const timeout = setTimeout(() => {
+    const fail = (message: string) => {
       child.kill('SIGKILL')
-      reject(new Error(`Profiling timed out after ${TIMEOUT_MS / 1000} seconds`))
-    }, TIMEOUT_MS)
+      reject(new Error(message))
+    }
+
+    /**
+     * On timeout, the app is asked for what it collected so far. If it
+     * cannot answer (e.g. a blocked event loop), profiling fails.
+     */
+    let timeout = setTimeout(() => {
+      const message = `Profiling timed out after ${timeoutMs / 1000} seconds`
+      if (!options.partialOnTimeout) return fail(message)
+
+      state.timedOut = true
+      child.send({ type: 'getResults' })
+      timeout = setTimeout(
+        () => fail(`${message} and the app did not report partial results`),
+        PARTIAL_RESULTS_GRACE_MS
+      )
+    }, timeoutMs)
+
+    /**
+     * Readiness of the HTTP server. Only web mode waits for it, ace
+     * commands and the test runner report their results on their own.
+     * The lag after a fallback signal is subtracted from the ready time.
+     */
+    const readiness = new ReadinessWatcher(readySignal, (lag) => {
+      if (mode !== 'web') return
+      state.readyLag = lag
+      child.send({ type: 'getResults' })
+    })
 
     const complete = () => {
       if (state.done) return
       state.done = true
       clearTimeout(timeout)
+      readiness.stop()
       child.kill('SIGTERM')
 
       const forceKill = setTimeout(() => child.kill('SIGKILL'), 500)
@@ -103,9 +295,7 @@ function runProfiledProcess(
     child.stdout?.on('data', (data: Buffer) => {
       const output = data.toString()
       if (!suppressOutput) process.stdout.write(output)
-      if (output.includes('started HTTP server')) {
-        child.send({ type: 'getResults' })
-      }
+      readiness.output(output)
     })
 
     child.stderr?.on('data', (data: Buffer) => {
@@ -113,16 +303,16 @@ function runProfiledProcess(
     })
 
     child.on('message', (message: unknown) => {
+      if (readiness.message(message)) return
+
       const msg = message as Record<string, unknown>
       if (msg.isAdonisJS === true && msg.environment === 'web' && msg.duration) {
         state.bootDuration = msg.duration as [number, number]
+        readiness.fallback()
         return
       }
       if (msg.type === 'results') {
-        const data = (msg as { type: 'results'; data: ResultsData }).data
-        state.loadTimes = new Map(Object.entries(data.loadTimes))
-        state.parents = new Map(Object.entries(data.parents || {}))
-        state.providerPhases = new Map(Object.entries(data.providerPhases || {}))
+        applyResults(state, (msg as { type: 'results'; data: ResultsData }).data)
         complete()
       }
     })
@@ -133,27 +323,23 @@ function runProfiledProcess(
     })
 
     child.on('exit', (code) => {
-      if (code !== null && code !== 0 && code !== 137 && code !== 143 && !state.done) {
-        clearTimeout(timeout)
-        reject(new Error(`Process exited with code ${code}`))
+      if (state.done) {
+        rmSync(resultsFile, { force: true })
+        return
       }
-    })
-  })
-}
-
-function buildResults(state: ProfilerState, cwd: string): ProfileResult {
-  const modules: ModuleTiming[] = [...state.loadTimes].map(([url, loadTime]) => ({
-    specifier: simplifyUrl(url, cwd),
-    resolvedUrl: url,
-    loadTime,
-    parentUrl: state.parents.get(url),
-  }))
-
-  const collector = new ProfileCollector(modules, state.providerPhases)
 
-  const bootTimeMs = state.bootDuration
-    ? state.bootDuration[0] * 1000 + state.bootDuration[1] / 1_000_000
-    : 0
+      clearTimeout(timeout)
+      readiness.stop()
+      if (!existsSync(resultsFile)) {
+        reject(new Error(`Process exited with code ${code} before reporting results`))
+        return
+      }
 
-  return collector.collectResults(bootTimeMs)
+      applyResults(state, JSON.parse(readFileSync(resultsFile, 'utf-8')) as ResultsData)
+      rmSync(resultsFile, { force: true })
+      state.exitCode = code ?? 1
+      state.done = true
+      resolve(state)
+    })
+  })
 }
@@ -0,0 +1,101 @@
+/*
+|--------------------------------------------------------------------------
+| Server Readiness
+|--------------------------------------------------------------------------
+|
+| Detects when the profiled HTTP server is ready: on the AdonisJS `ready`
+| IPC message, or shortly after a fallback signal, i.e. the readiness
+| line in its stdout or the AdonisJS boot notification.
+|
+*/
+
+/**
+ * Time given to the app to send the AdonisJS `ready` notification once
+ * a fallback readiness signal was seen, so `ready()` hooks can finish
+ */
+export const READY_FALLBACK_DELAY_MS = 500
+
+/**
+ * Scans a chunk of output for the readiness signal, across chunk
+ * boundaries. Returns whether the signal was seen, and the end of the
+ * output to scan along with the next chunk, too short to hold the
+ * signal on its own.
+ */
+export function scanOutput(
+  pending: string,
+  chunk: string,
+  signal: string
+): { seen: boolean; pending: string } {
+  const output = pending + chunk
+  return {
+    seen: output.includes(signal),
+    pending: output.slice(Math.max(output.length - signal.length + 1, 0)),
+  }
+}
+
+export class ReadinessWatcher {
+  readonly #signal: string
+  readonly #onReady: (lag: number) => void
+  readonly #fallbackDelay: number
+  #pendingOutput = ''
+  #fallbackTimer?: NodeJS.Timeout
+  #done = false
+
+  /**
+   * Calls `onReady` once, with the time elapsed since the fallback
+   * signal when readiness was only seen through it
+   */
+  constructor(
+    signal: string,
+    onReady: (lag: number) => void,
+    fallbackDelay = READY_FALLBACK_DELAY_MS
+  ) {
+    this.#signal = signal
+    this.#onReady = onReady
+    this.#fallbackDelay = fallbackDelay
+  }
+
+  /**
+   * Scans a chunk of the app stdout for the readiness signal
+   */
+  output(chunk: string): void {
+    const scan = scanOutput(this.#pendingOutput, chunk, this.#signal)
+    this.#pendingOutput = scan.pending
+    if (scan.seen) this.fallback()
+  }
+
+  /**
+   * Handles an IPC message of the app, returning whether it was the
+   * `ready` notification or the readiness signal
+   */
+  message(message: unknown): boolean {
+    if (message !== 'ready' && message !== this.#signal) return false
+    this.#ready(0)
+    return true
+  }
+
+  /**
+   * Readiness seen outside of the `ready` notification. The app is
+   * considered ready after the fallback delay, unless the notification
+   * arrives first.
+   */
+  fallback(): void {
+    if (this.#done || this.#fallbackTimer) return
+    const seenAt = Date.now()
+    this.#fallbackTimer = setTimeout(() => this.#ready(Date.now() - seenAt), this.#fallbackDelay)
+  }
+
+  /**
+   * Stops watching, e.g. once the app reported its results or exited
+   */
+  stop(): void {
+    this.#done = true
+    clearTimeout(this.#fallbackTimer)
+  }
+
+  #ready(lag: number): void {
+    if (this.#done) return
+    this.stop()
+    this.#onReady(lag)
+  }
+}
@@ -0,0 +1,48 @@
+/*
+|--------------------------------------------------------------------------
+| Recommendations
+|--------------------------------------------------------------------------
+|
+| Flags the common causes of a slow cold start. Shared by the reporters
+| so every report gives the same advice.
+|
+*/
+
+import type { ProfileResult, ResolvedConfig } from '#types'
+import { ProfileCollector } from '#profiler/collector'
+import { formatDuration, getEffectiveTime } from '#profiler/reporters/format'
+
+/**
+ * Lists the issues worth looking into, empty when none was detected.
+ */
+export function getRecommendations(result: ProfileResult, config: ResolvedConfig): string[] {
+  const recommendations: string[] = []
+
+  if (result.totalTime > 2000) {
+    recommendations.push('Total boot time is over 2s. Consider lazy-loading some providers.')
+  }
+
+  if (result.summary.totalModules > 500) {
+    recommendations.push(
+      `Loading ${result.summary.totalModules} modules. Consider code splitting or lazy imports.`
+    )
+  }
+
+  const { totalModuleTime, totalTranspileTime } = result.summary
+  if (!config.excludeTranspile && totalTranspileTime > totalModuleTime / 2) {
+    recommendations.push(
+      `${formatDuration(totalTranspileTime)} of module load time is TypeScript transpilation, which a production build does not pay. Use --exclude-transpile for production-equivalent numbers.`
+    )
+  }
+
+  const collector = new ProfileCollector(result.modules)
+  const filtered = collector.filterModules(config)
+  const verySlowModules = filtered.filter((m) => getEffectiveTime(m) > 100)
+  if (verySlowModules.length > 0) {
+    recommendations.push(
+      `${verySlowModules.length} module(s) took over 100ms to load. Check for heavy initialization code.`
+    )
+  }
+
+  return recommendations
+}
@@ -7,7 +7,7 @@
 |
 */
 
-import type { ProfileResult, ResolvedConfig } from '#types'
+import type { BudgetCheck, ProfileComparison, ProfileResult, ResolvedConfig } from '#types'
 
 /**
  * Context passed to reporters containing all data needed for rendering.
@@ -16,6 +16,21 @@ export interface ReportContext {
   result: ProfileResult
   config: ResolvedConfig
   cwd: string
+
+  /**
+   * Entry point that was profiled, relative to cwd
+   */
+  entryPoint?: string
+
+  /**
+   * Deltas against a baseline profile, when one was provided
+   */
+  comparison?: ProfileComparison
+
+  /**
+   * Outcome of the performance budgets, when budgets were declared
+   */
+  budgets?: BudgetCheck[]
 }
 
 /**
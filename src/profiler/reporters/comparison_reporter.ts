@@ -0,0 +1,165 @@
+/*
+|--------------------------------------------------------------------------
+| Comparison Reporter
+|--------------------------------------------------------------------------
+|
+| Renders the deltas between a baseline and a current profile to the
+| terminal using @poppinss/cliui.
+|
+*/
+
+import type { Delta, DeltaGroup, EntryDelta, ProfileComparison } from '#types'
+import { symbols } from '#registries/index'
+import type { ReportContext, Reporter } from './base_reporter.js'
+import { colorDelta, colorDuration, formatDuration, ui } from './format.js'
+
+export class ComparisonReporter implements Reporter {
+  /**
+   * Renders the comparison attached to the context.
+   */
+  render(context: ReportContext): void {
+    const { comparison, config } = context
+    if (!comparison) {
+      return
+    }
+
+    this.#printHeader()
+    this.#printSummary(comparison)
+    this.#printGroup('Modules', symbols.turtle, comparison.modules, config.topModules, 40)
+    this.#printGroup('Packages', symbols.package, comparison.packages, config.topModules, 33)
+    this.#printGroup('Providers', symbols.lightning, comparison.providers, config.topModules, 33)
+    this.#printVerdict(comparison)
+  }
+
+  #printHeader(): void {
+    ui.logger.log('')
+    ui.logger.log(
+      ui.colors.bold(ui.colors.cyan(`  ${symbols.stethoscope} Docteur - Profile Comparison`))
+    )
+    ui.logger.log(ui.colors.dim(`  ${symbols.dash}`.repeat(25)))
+    ui.logger.log('')
+  }
+
+  #printSummary(comparison: ProfileComparison): void {
+    ui.logger.log(ui.colors.bold(`  ${symbols.chart} Summary`))
+    ui.logger.log('')
+
+    const table = ui.table()
+    table.head([
+      ui.colors.dim(''),
+      ui.colors.dim('Baseline'),
+      ui.colors.dim('Current'),
+      ui.colors.dim('Change'),
+    ])
+
+    const timeRow = (label: string, d: Delta) =>
+      table.row([
+        ui.colors.dim(label),
+        formatDuration(d.baseline),
+        colorDuration(d.current),
+        colorDelta(d.delta),
+      ])
+
+    const countRow = (label: string, d: Delta) =>
+      table.row([
+        ui.colors.dim(label),
+        d.baseline.toString(),
+        ui.colors.white(d.current.toString()),
+        this.#colorCount(d.delta),
+      ])
+
+    timeRow('Total boot time:', comparison.totalTime)
+    countRow('Total modules loaded:', comparison.summary.totalModules)
+    countRow('  App modules:', comparison.summary.userModules)
+    countRow('  Node modules:', comparison.summary.nodeModules)
+    countRow('  AdonisJS modules:', comparison.summary.adonisModules)
+    timeRow('Module import time:', comparison.summary.totalModuleTime)
+    timeRow('Provider exec time:', comparison.summary.totalProviderTime)
+
+    table.render()
+    ui.logger.log('')
+  }
+
+  #printGroup(
+    title: string,
+    icon: string,
+    group: DeltaGroup,
+    limit: number,
+    nameWidth: number
+  ): void {
+    const sections: Array<[string, EntryDelta[]]> = [
+      ['Slower', group.slower],
+      ['Added', group.added],
+      ['Faster', group.faster],
+      ['Removed', group.removed],
+    ]
+
+    if (sections.every(([, entries]) => entries.length === 0)) {
+      return
+    }
+
+    ui.logger.log(ui.colors.bold(`  ${icon} ${title}`))
+    ui.logger.log('')
+
+    for (const [label, entries] of sections) {
+      if (entries.length === 0) continue
+
+      ui.logger.log(ui.colors.dim(`  ${label} (${entries.length})`))
+
+      const table = ui.table()
+      table
+        .head([
+          ui.colors.dim('Name'),
+          ui.colors.dim('Baseline'),
+          ui.colors.dim('Current'),
+          ui.colors.dim('Change'),
+        ])
+        .columnWidths([nameWidth + 5, 12, 12, 12])
+
+      for (const entry of entries.slice(0, limit)) {
+        table.row([
+          entry.name.length > nameWidth ? entry.name.slice(-nameWidth) : entry.name,
+          ui.colors.dim(formatDuration(entry.baseline)),
+          formatDuration(entry.current),
+          colorDelta(entry.delta),
+        ])
+      }
+
+      table.render()
+      if (entries.length > limit) {
+        ui.logger.log(ui.colors.dim(`  ... and ${entries.length - limit} more`))
+      }
+      ui.logger.log('')
+    }
+  }
+
+  #printVerdict(comparison: ProfileComparison): void {
+    const { delta, baseline } = comparison.totalTime
+    const percent = baseline > 0 ? ` (${((delta / baseline) * 100).toFixed(1)}%)` : ''
+
+    if (delta > 0) {
+      ui.logger.log(
+        `  ${symbols.warning} ` +
+          ui.colors.red(`Boot time regressed by ${formatDuration(delta)}${percent}`)
+      )
+    } else if (delta < 0) {
+      ui.logger.log(
+        ui.colors.bold(`  ${symbols.checkmark} `) +
+          ui.colors.green(`Boot time improved by ${formatDuration(-delta)}${percent}`)
+      )
+    } else {
+      ui.logger.log(
+        ui.colors.bold(`  ${symbols.checkmark} `) + ui.colors.green('Boot time unchanged')
+      )
+    }
+
+    ui.logger.log('')
+  }
+
+  #colorCount(delta: number): string {
+    const formatted = delta > 0 ? `+${delta}` : delta.toString()
+    if (delta > 0) return ui.colors.red(formatted)
+    if (delta < 0) return ui.colors.green(formatted)
+    return ui.colors.dim(formatted)
+  }
+}
@@ -7,20 +7,45 @@
 |
 */
 
-import type { AppFileGroup, ProfileResult, ResolvedConfig } from '#types'
-import { ProfileCollector } from '#profiler/collector'
+import type {
+  AppFileGroup,
+  BudgetCheck,
+  ModuleTiming,
+  ProfileResult,
+  ProviderPhase,
+  ProviderTiming,
+  ResolvedConfig,
+  TimelineEntry,
+  TimingStats,
+} from '#types'
+import { PHASE_TIME_KEYS, ProfileCollector } from '#profiler/collector'
+import { getRecommendations } from '#profiler/recommendations'
+import { buildTimeline, renderWaterfall } from '#profiler/timeline'
 import { symbols } from '#registries/index'
 import type { ReportContext, Reporter } from './base_reporter.js'
 import {
   colorDuration,
+  colorVariance,
   createBar,
+  formatBudgetValue,
   formatDuration,
   getCategoryIcon,
   getEffectiveTime,
+  getFormatTag,
   simplifyUrl,
   ui,
 } from './format.js'
 
+/**
+ * Bar color of each kind of timeline row
+ */
+const TIMELINE_COLORS: Record<TimelineEntry['kind'], (text: string) => string> = {
+  modules: (text) => ui.colors.cyan(text),
+  module: (text) => ui.colors.blue(text),
+  provider: (text) => ui.colors.magenta(text),
+  idle: (text) => ui.colors.dim(text),
+}
+
 export class ConsoleReporter implements Reporter {
   /**
    * Renders the complete report to console.
@@ -29,7 +54,12 @@ export class ConsoleReporter implements Reporter {
     const { result, config, cwd } = context
 
     this.#printHeader()
-    this.#printSummary(result)
+
+    if (result.partial) {
+      this.#printUnfinished(result, cwd)
+    }
+
+    this.#printSummary(result, config)
     this.#printAppFiles(result, cwd)
     this.#printSlowestModules(result, config, cwd)
 
@@ -38,6 +68,12 @@ export class ConsoleReporter implements Reporter {
     }
 
     this.#printProviders(result)
+    this.#printTimeline(result)
+
+    if (context.budgets) {
+      this.#printBudgets(context.budgets)
+    }
+
     this.#printRecommendations(result, config)
     this.#printFooter()
   }
@@ -51,13 +87,39 @@ export class ConsoleReporter implements Reporter {
     ui.logger.log('')
   }
 
-  #printSummary(result: ProfileResult): void {
+  #printSummary(result: ProfileResult, config: ResolvedConfig): void {
     ui.logger.log(ui.colors.bold(`  ${symbols.chart} Summary`))
     ui.logger.log('')
 
     const table = ui.table()
+
+    if (result.stats) {
+      table.row([ui.colors.dim('Runs:'), ui.colors.white(`${result.stats.runs} (median shown)`)])
+    }
+
+    if (result.production) {
+      table.row([ui.colors.dim('Build:'), ui.colors.white('production')])
+    }
+
+    if (result.command) {
+      const { name, args } = result.command
+      table.row([ui.colors.dim('Command:'), ui.colors.white(['ace', name, ...args].join(' '))])
+    }
+
+    table.row([
+      ui.colors.dim(result.command ? 'App boot time:' : 'Total boot time:'),
+      this.#withVariance(colorDuration(result.totalTime), result.stats?.totalTime),
+    ])
+
+    if (result.command) {
+      const { executionTime, exitCode } = result.command
+      table.row([ui.colors.dim('Command execution:'), colorDuration(executionTime)])
+      if (exitCode !== 0) {
+        table.row([ui.colors.dim('Exit code:'), ui.colors.red(exitCode.toString())])
+      }
+    }
+
     table
-      .row([ui.colors.dim('Total boot time:'), colorDuration(result.totalTime)])
       .row([
         ui.colors.dim('Total modules loaded:'),
         ui.colors.white(result.summary.totalModules.toString()),
@@ -74,8 +136,21 @@ export class ConsoleReporter implements Reporter {
         ui.colors.dim('  AdonisJS modules:'),
         ui.colors.white(result.summary.adonisModules.toString()),
       ])
+      .row([
+        ui.colors.dim('  CommonJS modules:'),
+        ui.colors.white(result.summary.commonjsModules.toString()),
+      ])
       .row([ui.colors.dim('Module import time:'), colorDuration(result.summary.totalModuleTime)])
 
+    const { totalTranspileTime } = result.summary
+    if (totalTranspileTime > 0) {
+      const note = config.excludeTranspile ? 'excluded' : 'dev only'
+      table.row([
+        ui.colors.dim('  TS transpile time:'),
+        `${colorDuration(totalTranspileTime)} ${ui.colors.dim(`(${note})`)}`,
+      ])
+    }
+
     if (result.providers.length > 0) {
       table.row([
         ui.colors.dim('Provider exec time:'),
@@ -98,11 +173,16 @@ export class ConsoleReporter implements Reporter {
     }
 
     const maxTime = slowest[0] ? getEffectiveTime(slowest[0]) : 1
+    const varianceWidth = result.stats ? 9 : 0
 
     ui.logger.log(
       ui.colors.bold(`  ${symbols.turtle} Slowest Module Imports (top ${config.topModules})`)
     )
-    ui.logger.log(ui.colors.dim('  Total = with dependencies, Self = file only'))
+    ui.logger.log(
+      ui.colors.dim(
+        '  Total = with dependencies, Exclusive = saved if removed, Self = file only, Eval = module body'
+      )
+    )
     ui.logger.log('')
 
     const table = ui.table()
@@ -111,21 +191,27 @@ export class ConsoleReporter implements Reporter {
         ui.colors.dim('#'),
         ui.colors.dim('Module'),
         ui.colors.dim('Total'),
+        ui.colors.dim('Exclusive'),
         ui.colors.dim('Self'),
+        ui.colors.dim('Eval'),
         ui.colors.dim(''),
       ])
-      .columnWidths([6, 45, 11, 11, 30])
+      .columnWidths([6, 42, 11 + varianceWidth, 11, 11, 11, 18])
 
     slowest.forEach((module, index) => {
       const simplified = simplifyUrl(module.resolvedUrl, cwd)
       const totalTime = getEffectiveTime(module)
       const selfTime = module.loadTime
       table.row([
-        ui.colors.dim((index + 1).toString()),
-        simplified.length > 40 ? simplified.slice(-40) : simplified,
-        colorDuration(totalTime),
+        module.incomplete
+          ? ui.colors.yellow(symbols.warning)
+          : ui.colors.dim((index + 1).toString()),
+        this.#moduleName(module, simplified),
+        this.#withVariance(colorDuration(totalTime), module.stats?.subtreeTime),
+        formatDuration(module.exclusiveTime ?? selfTime),
         ui.colors.dim(formatDuration(selfTime)),
-        createBar(totalTime, maxTime, 25),
+        this.#evaluationCell(module),
+        createBar(totalTime, maxTime, 15),
       ])
     })
 
@@ -146,7 +232,9 @@ export class ConsoleReporter implements Reporter {
     const maxTime = topGroups[0]?.totalTime || 1
 
     ui.logger.log(ui.colors.bold(`  ${symbols.package} Slowest Packages`))
-    ui.logger.log(ui.colors.dim('  Total import time per npm package'))
+    ui.logger.log(
+      ui.colors.dim('  Self = own import time per npm package, Exclusive = saved if removed')
+    )
     ui.logger.log('')
 
     const table = ui.table()
@@ -155,10 +243,11 @@ export class ConsoleReporter implements Reporter {
         ui.colors.dim('#'),
         ui.colors.dim('Package'),
         ui.colors.dim('Modules'),
-        ui.colors.dim('Total'),
+        ui.colors.dim('Self'),
+        ui.colors.dim('Exclusive'),
         ui.colors.dim(''),
       ])
-      .columnWidths([6, 38, 12, 12, 35])
+      .columnWidths([6, 38, 12, 12, 12, 30])
 
     topGroups.forEach((group, index) => {
       table.row([
@@ -166,7 +255,8 @@ export class ConsoleReporter implements Reporter {
         group.name.length > 33 ? group.name.slice(0, 33) : group.name,
         ui.colors.dim(group.modules.length.toString()),
         colorDuration(group.totalTime),
-        createBar(group.totalTime, maxTime),
+        formatDuration(group.exclusiveTime),
+        createBar(group.totalTime, maxTime, 25),
       ])
     })
 
@@ -181,6 +271,7 @@ export class ConsoleReporter implements Reporter {
 
     const sorted = [...result.providers].sort((a, b) => b.totalTime - a.totalTime)
     const maxTime = sorted[0]?.totalTime || 1
+    const varianceWidth = result.stats ? 9 : 0
 
     ui.logger.log(ui.colors.bold(`  ${symbols.lightning} Provider Execution Times`))
     ui.logger.log(ui.colors.dim('  Time spent in register() and boot() methods'))
@@ -196,45 +287,203 @@ export class ConsoleReporter implements Reporter {
         ui.colors.dim('Total'),
         ui.colors.dim(''),
       ])
-      .columnWidths([5, 28, 11, 11, 11, 35])
+      .columnWidths([5, 28, 11, 11, 11 + varianceWidth, 35])
 
     sorted.forEach((provider, index) => {
       table.row([
         ui.colors.dim((index + 1).toString()),
         provider.name.length > 26 ? provider.name.slice(0, 26) : provider.name,
-        colorDuration(provider.registerTime),
-        colorDuration(provider.bootTime),
-        colorDuration(provider.totalTime),
+        this.#phaseCell(provider, 'register'),
+        this.#phaseCell(provider, 'boot'),
+        this.#withVariance(colorDuration(provider.totalTime), provider.stats?.total),
         createBar(provider.totalTime, maxTime, 30),
       ])
     })
 
     table.render()
     ui.logger.log('')
+
+    this.#printProviderIssues(sorted)
   }
 
-  #printRecommendations(result: ProfileResult, config: ResolvedConfig): void {
-    const recommendations: string[] = []
+  /**
+   * Waterfall of the boot: module loading, slowest modules, provider
+   * lifecycle methods and idle gaps, scaled to the total time
+   */
+  #printTimeline(result: ProfileResult): void {
+    const entries = buildTimeline(result)
+    if (entries.length === 0) {
+      return
+    }
+
+    const width = 50
+    const end = Math.max(...entries.map((entry) => entry.end))
+    const rows = renderWaterfall(entries, width)
+
+    ui.logger.log(ui.colors.bold(`  ${symbols.stopwatch} Boot Timeline`))
+    ui.logger.log(ui.colors.dim('  What ran when, from process start to ready'))
+    ui.logger.log('')
 
-    if (result.totalTime > 2000) {
-      recommendations.push('Total boot time is over 2s. Consider lazy-loading some providers.')
+    const axis = `0ms${formatDuration(end).padStart(width - 3)}`
+    ui.logger.log(`  ${''.padEnd(32)} ${ui.colors.dim(axis)}`)
+
+    for (const row of rows) {
+      const label = row.label.length > 30 ? `…${row.label.slice(-29)}` : row.label
+      const bar = TIMELINE_COLORS[row.kind](row.bar)
+      ui.logger.log(`  ${label.padEnd(32)} ${bar} ${ui.colors.dim(formatDuration(row.duration))}`)
     }
 
-    if (result.summary.totalModules > 500) {
-      recommendations.push(
-        `Loading ${result.summary.totalModules} modules. Consider code splitting or lazy imports.`
-      )
+    ui.logger.log('')
+  }
+
+  /**
+   * Phase time, or its status when it failed or never finished
+   */
+  #phaseCell(provider: ProviderTiming, phase: ProviderPhase): string {
+    if (provider.errors?.some((e) => e.phase === phase)) {
+      return ui.colors.red(`${symbols.cross} failed`)
+    }
+    if (provider.incompletePhases?.includes(phase)) {
+      return ui.colors.yellow(`${formatDuration(provider[PHASE_TIME_KEYS[phase]])}+`)
     }
+    return colorDuration(provider[PHASE_TIME_KEYS[phase]])
+  }
 
-    const collector = new ProfileCollector(result.modules)
-    const filtered = collector.filterModules(config)
-    const verySlowModules = filtered.filter((m) => getEffectiveTime(m) > 100)
-    if (verySlowModules.length > 0) {
-      recommendations.push(
-        `${verySlowModules.length} module(s) took over 100ms to load. Check for heavy initialization code.`
+  /**
+   * Lists the provider phases that threw or never finished, with the
+   * error message and stack for failures
+   */
+  #printProviderIssues(providers: ProviderTiming[]): void {
+    const failed = providers.filter((p) => p.errors?.length)
+    const unfinished = providers.filter((p) => p.incompletePhases?.length)
+
+    if (failed.length === 0 && unfinished.length === 0) {
+      return
+    }
+
+    for (const provider of failed) {
+      for (const error of provider.errors!) {
+        ui.logger.log(
+          `  ${symbols.cross} ${ui.colors.bold(`${provider.name} ${error.phase}()`)} ${ui.colors.red(error.message)}`
+        )
+        const frames = error.stack?.split('\n').slice(1, 4) ?? []
+        for (const frame of frames) ui.logger.log(ui.colors.dim(`    ${frame.trim()}`))
+      }
+    }
+
+    for (const provider of unfinished) {
+      for (const phase of provider.incompletePhases!) {
+        if (provider.errors?.some((e) => e.phase === phase)) continue
+        const elapsed = formatDuration(provider[PHASE_TIME_KEYS[phase]])
+        ui.logger.log(
+          `  ${ui.colors.yellow(symbols.warning)} ${ui.colors.bold(`${provider.name} ${phase}()`)} ${ui.colors.yellow(`never finished (running for ${elapsed})`)}`
+        )
+      }
+    }
+
+    ui.logger.log('')
+  }
+
+  /**
+   * Lists what was still running when profiling timed out or the app
+   * exited, which is where a hanging or crashing boot is stuck
+   */
+  #printUnfinished(result: ProfileResult, cwd: string): void {
+    const modules = result.modules
+      .filter((m) => m.incomplete)
+      .sort((a, b) => b.loadTime - a.loadTime)
+    const phases = result.providers.flatMap((p) =>
+      (p.incompletePhases ?? []).map((phase) => ({
+        name: `${p.name} ${phase}()`,
+        elapsed: p[PHASE_TIME_KEYS[phase]],
+      }))
+    )
+
+    const exited = result.exitCode !== undefined
+    const reason = exited
+      ? `the app exited with code ${result.exitCode} before being ready`
+      : 'profiling timed out'
+
+    ui.logger.log(
+      ui.colors.bold(ui.colors.yellow(`  ${symbols.warning} Partial results: ${reason}`))
+    )
+    ui.logger.log(
+      ui.colors.dim(`  Still running when ${exited ? 'the app exited' : 'the timeout was reached'}`)
+    )
+    ui.logger.log('')
+
+    if (modules.length === 0 && phases.length === 0) {
+      ui.logger.log(
+        ui.colors.dim(
+          exited ? '  Nothing was running' : '  Nothing was running, the app may be waiting on I/O'
+        )
       )
+      ui.logger.log('')
+      return
     }
 
+    const table = ui.table()
+    table.columnWidths([50, 15])
+
+    for (const phase of phases) {
+      table.row([
+        `${symbols.provider} ${phase.name}`,
+        ui.colors.yellow(formatDuration(phase.elapsed)),
+      ])
+    }
+
+    for (const module of modules) {
+      const simplified = simplifyUrl(module.resolvedUrl, cwd)
+      table.row([
+        `${symbols.file} ${simplified.length > 45 ? simplified.slice(-45) : simplified}`,
+        ui.colors.yellow(formatDuration(module.loadTime)),
+      ])
+    }
+
+    table.render()
+    ui.logger.log('')
+  }
+
+  #printBudgets(checks: BudgetCheck[]): void {
+    if (checks.length === 0) {
+      return
+    }
+
+    const failed = checks.filter((c) => !c.passed)
+
+    ui.logger.log(ui.colors.bold(`  ${symbols.target} Performance Budgets`))
+    ui.logger.log(
+      ui.colors.dim(`  ${checks.length - failed.length}/${checks.length} within budget`)
+    )
+    ui.logger.log('')
+
+    const table = ui.table()
+    table
+      .head([
+        ui.colors.dim(''),
+        ui.colors.dim('Budget'),
+        ui.colors.dim('Actual'),
+        ui.colors.dim('Limit'),
+      ])
+      .columnWidths([5, 50, 15, 15])
+
+    for (const check of [...failed, ...checks.filter((c) => c.passed)]) {
+      const actual = check.missing ? 'not found' : formatBudgetValue(check.actual, check.unit)
+      table.row([
+        check.passed ? symbols.checkmark : symbols.cross,
+        check.name.length > 45 ? check.name.slice(0, 45) : check.name,
+        check.passed ? ui.colors.green(actual) : ui.colors.red(actual),
+        ui.colors.dim(formatBudgetValue(check.limit, check.unit)),
+      ])
+    }
+
+    table.render()
+    ui.logger.log('')
+  }
+
+  #printRecommendations(result: ProfileResult, config: ResolvedConfig): void {
+    const recommendations = getRecommendations(result, config)
+
     if (recommendations.length === 0) {
       ui.logger.log(
         ui.colors.bold(`  ${symbols.checkmark} `) + ui.colors.green('No major issues detected!')
@@ -276,7 +525,7 @@ export class ConsoleReporter implements Reporter {
     const maxTime = group.files[0] ? getEffectiveTime(group.files[0]) : 1
 
     const table = ui.table()
-    table.columnWidths([35, 11, 11, 30])
+    table.columnWidths([35, 11, 11, 11, 25])
 
     for (const file of group.files) {
       const simplified = simplifyUrl(file.resolvedUrl, cwd)
@@ -287,13 +536,40 @@ export class ConsoleReporter implements Reporter {
         fileName.length > 33 ? fileName.slice(-33) : fileName,
         colorDuration(totalTime),
         ui.colors.dim(formatDuration(selfTime)),
-        createBar(totalTime, maxTime, 25),
+        this.#evaluationCell(file),
+        createBar(totalTime, maxTime, 20),
       ])
     }
 
     table.render()
   }
 
+  /**
+   * Module path, tagged with its format unless it is an ES module
+   */
+  #moduleName(module: ModuleTiming, path: string): string {
+    const format = getFormatTag(module)
+    const tag = format ? ` [${format}]` : ''
+    const max = 38 - tag.length
+    return (path.length > max ? path.slice(-max) : path) + ui.colors.dim(tag)
+  }
+
+  /**
+   * Evaluation time of the module body, when it was instrumented
+   */
+  #evaluationCell(module: ModuleTiming): string {
+    return module.evaluationTime === undefined
+      ? ui.colors.dim('-')
+      : colorDuration(module.evaluationTime)
+  }
+
+  /**
+   * Appends the run-to-run variance to a median, when profiled multiple times
+   */
+  #withVariance(formatted: string, stats?: TimingStats): string {
+    return stats ? `${formatted} ${colorVariance(stats)}` : formatted
+  }
+
   #printFooter(): void {
     ui.logger.log(ui.colors.dim(`  ${symbols.dash}`.repeat(25)))
     ui.logger.log(ui.colors.dim('  Run with --help for more options'))
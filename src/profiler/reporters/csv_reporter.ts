@@ -0,0 +1,152 @@
+/*
+|--------------------------------------------------------------------------
+| CSV Reporter
+|--------------------------------------------------------------------------
+|
+| Writes modules and providers as CSV (or TSV) files, one row each with
+| full paths and raw timings, for spreadsheets and notebooks.
+|
+*/
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { ProfileCollector } from '#profiler/collector'
+import { buildDependencyTree } from '#xray/tree'
+import type { ReportContext, Reporter } from './base_reporter.js'
+import { getEffectiveTime } from './format.js'
+
+type Field = string | number | undefined
+
+const MODULE_COLUMNS = [
+  'specifier',
+  'resolvedUrl',
+  'package',
+  'category',
+  'format',
+  'selfTime',
+  'subtreeTime',
+  'exclusiveTime',
+  'evaluationTime',
+  'transpileTime',
+  'depth',
+  'importer',
+]
+
+const PROVIDER_COLUMNS = [
+  'provider',
+  'registerTime',
+  'bootTime',
+  'startTime',
+  'readyTime',
+  'shutdownTime',
+  'totalTime',
+  'failedPhases',
+]
+
+export class CsvReporter implements Reporter {
+  readonly #outputDir: string
+  readonly #delimiter: ',' | '\t'
+
+  /**
+   * Writes `modules.csv` and `providers.csv` to the output directory,
+   * or `.tsv` files when using tabs as delimiter.
+   */
+  constructor(outputDir: string, delimiter: ',' | '\t' = ',') {
+    this.#outputDir = outputDir
+    this.#delimiter = delimiter
+  }
+
+  /**
+   * Builds the content of each file, keyed by file name.
+   */
+  toFiles(context: ReportContext): Record<string, string> {
+    const { result, cwd } = context
+    const extension = this.#delimiter === '\t' ? 'tsv' : 'csv'
+    const collector = new ProfileCollector(result.modules)
+    const tree = buildDependencyTree(result.modules, cwd)
+
+    const packages = new Map(
+      collector
+        .groupModulesByPackage()
+        .flatMap((group) => group.modules.map((m) => [m.resolvedUrl, group.name] as const))
+    )
+    const categories = new Map(
+      collector
+        .groupAppFilesByCategory()
+        .flatMap((group) => group.files.map((m) => [m.resolvedUrl, group.category] as const))
+    )
+
+    const modules = [...result.modules]
+      .sort((a, b) => getEffectiveTime(b) - getEffectiveTime(a))
+      .map((m) => [
+        m.specifier,
+        m.resolvedUrl,
+        packages.get(m.resolvedUrl),
+        categories.get(m.resolvedUrl),
+        m.format,
+        time(m.loadTime),
+        time(getEffectiveTime(m)),
+        time(m.exclusiveTime),
+        time(m.evaluationTime),
+        time(m.transpileTime),
+        tree.nodeMap.get(m.resolvedUrl)?.depth,
+        m.parentUrl ?? m.importers?.[0]?.url,
+      ])
+
+    const providers = [...result.providers]
+      .sort((a, b) => b.totalTime - a.totalTime)
+      .map((p) => [
+        p.name,
+        time(p.registerTime),
+        time(p.bootTime),
+        time(p.startTime),
+        time(p.readyTime),
+        time(p.shutdownTime),
+        time(p.totalTime),
+        p.errors?.map((error) => error.phase).join(' '),
+      ])
+
+    return {
+      [`modules.${extension}`]: this.#format(MODULE_COLUMNS, modules),
+      [`providers.${extension}`]: this.#format(PROVIDER_COLUMNS, providers),
+    }
+  }
+
+  /**
+   * Writes the files to the output directory.
+   */
+  async render(context: ReportContext): Promise<void> {
+    await mkdir(this.#outputDir, { recursive: true })
+    for (const [name, content] of Object.entries(this.toFiles(context))) {
+      await writeFile(join(this.#outputDir, name), content)
+    }
+  }
+
+  #format(head: string[], rows: Field[][]): string {
+    return (
+      [head, ...rows]
+        .map((row) => row.map((f) => this.#field(f)).join(this.#delimiter))
+        .join('\n') + '\n'
+    )
+  }
+
+  /**
+   * Quotes CSV fields holding a delimiter, quote or line break. TSV has
+   * no quoting, so tabs and line breaks become spaces.
+   */
+  #field(value: Field): string {
+    const text = value === undefined ? '' : String(value)
+
+    if (this.#delimiter === '\t') {
+      return text.replace(/[\t\r\n]+/g, ' ')
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+  }
+}
+
+/**
+ * Timings rounded to the microsecond, which is all they measure
+ */
+function time(ms: number | undefined): Field {
+  return ms === undefined ? undefined : Math.round(ms * 1000) / 1000
+}
@@ -0,0 +1,158 @@
+/*
+|--------------------------------------------------------------------------
+| Flame Graph Reporter
+|--------------------------------------------------------------------------
+|
+| Writes the import tree as a standalone SVG flame graph, in an icicle
+| layout: entry points at the top, each frame as wide as the subtree
+| time of its module, so a heavy import stands out at a glance.
+|
+*/
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { ProfileCollector } from '#profiler/collector'
+import { buildDependencyTree, type ModuleNode } from '#xray/tree'
+import type { ReportContext, Reporter } from './base_reporter.js'
+import { escapeMarkup, formatDuration, getEffectiveTime } from './format.js'
+
+const WIDTH = 1200
+const FRAME_HEIGHT = 18
+const PADDING = 10
+const HEADER_HEIGHT = 40
+
+/**
+ * Frames narrower than this, in pixels, are left out with their subtree
+ */
+const MIN_FRAME_WIDTH = 0.5
+
+/**
+ * Approximate width of a label character, in pixels
+ */
+const CHAR_WIDTH = 7
+
+interface Frame {
+  node: ModuleNode
+  x: number
+  width: number
+  depth: number
+}
+
+export class FlameGraphReporter implements Reporter {
+  readonly #outputPath: string
+
+  constructor(outputPath: string) {
+    this.#outputPath = outputPath
+  }
+
+  /**
+   * Builds the SVG flame graph for the given report context.
+   */
+  toSvg(context: ReportContext): string {
+    const { result, cwd } = context
+    const tree = buildDependencyTree(result.modules, cwd)
+    const packages = new Map(
+      new ProfileCollector(result.modules)
+        .groupModulesByPackage()
+        .flatMap((group) => group.modules.map((m) => [m.resolvedUrl, group.name] as const))
+    )
+
+    const frames = layout(tree.roots, WIDTH - PADDING * 2)
+    const total = tree.roots.reduce((sum, root) => sum + getEffectiveTime(root.timing), 0)
+    const depth = Math.max(0, ...frames.map((frame) => frame.depth + 1))
+    const height = HEADER_HEIGHT + depth * FRAME_HEIGHT + PADDING
+
+    const rects = frames.map((frame) => {
+      const { timing, displayName } = frame.node
+      const x = PADDING + frame.x
+      const y = HEADER_HEIGHT + frame.depth * FRAME_HEIGHT
+      const tooltip = [
+        timing.resolvedUrl,
+        `Package: ${packages.get(timing.resolvedUrl) ?? 'app'}`,
+        `Subtree: ${formatDuration(getEffectiveTime(timing))}`,
+        `Self: ${formatDuration(timing.loadTime)}`,
+      ].join('\n')
+
+      const chars = Math.floor((frame.width - 6) / CHAR_WIDTH)
+      const label =
+        chars < 3
+          ? ''
+          : `<text x="${(x + 3).toFixed(1)}" y="${y + FRAME_HEIGHT - 5}">${escapeMarkup(truncate(displayName, chars))}</text>`
+
+      return `<g><title>${escapeMarkup(tooltip)}</title><rect x="${x.toFixed(1)}" y="${y}" width="${frame.width.toFixed(1)}" height="${FRAME_HEIGHT - 1}" fill="${color(timing.resolvedUrl, displayName)}" rx="2"/>${label}</g>`
+    })
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${height}" viewBox="0 0 ${WIDTH} ${height}" font-family="Verdana, sans-serif" font-size="12">
+<rect width="100%" height="100%" fill="#fdfdfd"/>
+<text x="${WIDTH / 2}" y="20" text-anchor="middle" font-size="16">Docteur - Import Flame Graph</text>
+<text x="${WIDTH / 2}" y="34" text-anchor="middle" fill="#6b7280">${escapeMarkup(context.entryPoint ?? 'bin/server.ts')} &#183; ${formatDuration(total)} of module loading &#183; width = subtree time</text>
+${rects.join('\n')}
+</svg>
+`
+  }
+
+  /**
+   * Writes the SVG flame graph to the output path.
+   */
+  async render(context: ReportContext): Promise<void> {
+    await mkdir(dirname(this.#outputPath), { recursive: true })
+    await writeFile(this.#outputPath, this.toSvg(context))
+  }
+}
+
+/**
+ * Lays frames out in an icicle: children sit below their parent, from
+ * the left, sized by subtree time. A module shared by several importers
+ * is drawn under the first one only. Shared dependencies count in the
+ * subtree time of every importer, so children wider than their parent
+ * are scaled down to fit.
+ */
+function layout(roots: ModuleNode[], width: number): Frame[] {
+  const frames: Frame[] = []
+  const seen = new Set<ModuleNode>(roots)
+  const sum = (nodes: ModuleNode[]) =>
+    nodes.reduce((total, node) => total + getEffectiveTime(node.timing), 0)
+
+  const sorted = [...roots].sort((a, b) => getEffectiveTime(b.timing) - getEffectiveTime(a.timing))
+  const pixelsPerMs = width / (sum(sorted) || 1)
+
+  const place = (nodes: ModuleNode[], x: number, available: number, depth: number) => {
+    const total = sum(nodes)
+    if (total <= 0) return
+
+    const scale = Math.min(pixelsPerMs, available / total)
+    let cursor = x
+
+    for (const node of nodes) {
+      const nodeWidth = getEffectiveTime(node.timing) * scale
+      if (nodeWidth >= MIN_FRAME_WIDTH) {
+        frames.push({ node, x: cursor, width: nodeWidth, depth })
+        const children = node.children.filter((child) => child.parent === node && !seen.has(child))
+        children.forEach((child) => seen.add(child))
+        place(children, cursor, nodeWidth, depth + 1)
+      }
+      cursor += nodeWidth
+    }
+  }
+
+  place(sorted, 0, width, 0)
+  return frames
+}
+
+/**
+ * Warm colors for app files, blues for AdonisJS and greens for other
+ * packages, varied by name so neighbouring frames stand apart
+ */
+function color(url: string, name: string): string {
+  const hash = [...name].reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 7)
+  const variation = hash % 20
+
+  if (url.includes('/node_modules/@adonisjs/')) return `hsl(${205 + variation}, 65%, 65%)`
+  if (url.includes('/node_modules/')) return `hsl(${90 + variation}, 45%, 60%)`
+  return `hsl(${20 + variation}, 85%, 62%)`
+}
+
+function truncate(text: string, chars: number): string {
+  return text.length <= chars ? text : `${text.slice(0, chars - 2)}..`
+}
@@ -8,7 +8,7 @@
 */
 
 import { cliui } from '@poppinss/cliui'
-import type { AppFileCategory, ModuleTiming } from '#types'
+import type { AppFileCategory, BudgetCheck, ModuleFormat, ModuleTiming, TimingStats } from '#types'
 import { categories, symbols } from '#registries/index'
 
 /**
@@ -32,6 +32,23 @@ export function getEffectiveTime(module: ModuleTiming): number {
   return module.subtreeTime ?? module.loadTime
 }
 
+/**
+ * Short tags for the module formats, ES modules being the default
+ */
+const FORMAT_TAGS: Partial<Record<ModuleFormat, string>> = {
+  commonjs: 'cjs',
+  json: 'json',
+  wasm: 'wasm',
+  builtin: 'builtin',
+}
+
+/**
+ * Gets the tag of a module format, if it is not an ES module
+ */
+export function getFormatTag(module: ModuleTiming): string | undefined {
+  return module.format && FORMAT_TAGS[module.format]
+}
+
 /**
  * Formats a duration in milliseconds for display
  */
@@ -53,6 +70,54 @@ export function colorDuration(ms: number): string {
   return ui.colors.green(formatted)
 }
 
+/**
+ * Formats the run-to-run spread of a timing as a relative
+ * standard deviation (e.g., ±4.2%)
+ */
+export function formatVariance(stats: TimingStats): string {
+  return `${symbols.plusMinus}${relativeStdDev(stats).toFixed(1)}%`
+}
+
+/**
+ * Colors a variance indicator: dim when stable, red when noisy
+ */
+export function colorVariance(stats: TimingStats): string {
+  const formatted = formatVariance(stats)
+  const spread = relativeStdDev(stats)
+  if (spread >= 15) return ui.colors.red(formatted)
+  if (spread >= 5) return ui.colors.yellow(formatted)
+  return ui.colors.dim(formatted)
+}
+
+function relativeStdDev(stats: TimingStats): number {
+  return stats.mean > 0 ? (stats.stdDev / stats.mean) * 100 : 0
+}
+
+/**
+ * Formats a budget value in its unit
+ */
+export function formatBudgetValue(value: number, unit: BudgetCheck['unit']): string {
+  return unit === 'ms' ? formatDuration(value) : `${value} modules`
+}
+
+/**
+ * Formats a signed duration change for display (e.g., +12.30ms, -1.05s)
+ */
+export function formatDelta(ms: number): string {
+  const sign = ms > 0 ? '+' : ms < 0 ? '-' : ''
+  return sign + formatDuration(Math.abs(ms))
+}
+
+/**
+ * Colors a duration change: red when slower, green when faster
+ */
+export function colorDelta(ms: number): string {
+  const formatted = formatDelta(ms)
+  if (ms > 0) return ui.colors.red(formatted)
+  if (ms < 0) return ui.colors.green(formatted)
+  return ui.colors.dim(formatted)
+}
+
 /**
  * Creates a visual bar representing the duration
  */
@@ -67,6 +132,19 @@ export function createBar(ms: number, maxMs: number, width: number = 30): string
   return ui.colors.green(bar)
 }
 
+/**
+ * Escapes text for HTML, XML and SVG documents, in element content and
+ * quoted attribute values
+ */
+export function escapeMarkup(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;')
+}
+
 /**
  * Simplifies a module URL for display:
  * - Strips file:// protocol
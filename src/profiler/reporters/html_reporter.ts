@@ -0,0 +1,359 @@
+/*
+|--------------------------------------------------------------------------
+| HTML Reporter
+|--------------------------------------------------------------------------
+|
+| Writes the report as a single self-contained HTML file, with inline
+| styles and scripts, so it can be attached to CI runs and opened by
+| anyone, without docteur or a network connection.
+|
+*/
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type { ProfileResult, ProviderPhase, ResolvedConfig } from '#types'
+import { PHASE_TIME_KEYS, ProfileCollector } from '#profiler/collector'
+import { getRecommendations } from '#profiler/recommendations'
+import { buildDependencyTree, type ModuleNode } from '#xray/tree'
+import type { ReportContext, Reporter } from './base_reporter.js'
+import {
+  escapeMarkup,
+  formatDuration,
+  getEffectiveTime,
+  getFormatTag,
+  simplifyUrl,
+} from './format.js'
+
+/**
+ * Lifecycle methods charted for each provider, with their bar color
+ */
+const PHASE_COLORS: Partial<Record<ProviderPhase, string>> = {
+  register: '#8b5cf6',
+  boot: '#0ea5e9',
+  start: '#f59e0b',
+  ready: '#10b981',
+}
+
+interface Column {
+  label: string
+  numeric?: boolean
+}
+
+export class HtmlReporter implements Reporter {
+  readonly #outputPath: string
+
+  constructor(outputPath: string) {
+    this.#outputPath = outputPath
+  }
+
+  /**
+   * Builds the HTML document for the given report context.
+   */
+  toHtml(context: ReportContext): string {
+    const { result, config, cwd } = context
+    const entryPoint = context.entryPoint ?? 'bin/server.ts'
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Docteur - ${escapeMarkup(entryPoint)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>Docteur - Cold Start Analysis</h1>
+<p class="muted">${escapeMarkup(entryPoint)} &middot; Node.js ${escapeMarkup(process.version)} &middot; ${new Date().toISOString()}</p>
+</header>
+${this.#summary(result, config)}
+${this.#recommendations(result, config)}
+${this.#modules(result, config, cwd)}
+${this.#packages(result, config)}
+${this.#providers(result)}
+${this.#importTree(result, cwd)}
+<script>${SCRIPT}</script>
+</body>
+</html>
+`
+  }
+
+  /**
+   * Writes the HTML document to the output path.
+   */
+  async render(context: ReportContext): Promise<void> {
+    await mkdir(dirname(this.#outputPath), { recursive: true })
+    await writeFile(this.#outputPath, this.toHtml(context))
+  }
+
+  #summary(result: ProfileResult, config: ResolvedConfig): string {
+    const { summary } = result
+    const cards: Array<[string, string]> = [
+      [result.command ? 'App boot time' : 'Total boot time', formatDuration(result.totalTime)],
+      ['Modules loaded', summary.totalModules.toString()],
+      ['Module import time', formatDuration(summary.totalModuleTime)],
+      ['Provider exec time', formatDuration(summary.totalProviderTime)],
+    ]
+
+    if (result.command) {
+      cards.push(['Command execution', formatDuration(result.command.executionTime)])
+    }
+    if (summary.totalTranspileTime > 0) {
+      const note = config.excludeTranspile ? 'excluded' : 'dev only'
+      cards.push([`TS transpile time (${note})`, formatDuration(summary.totalTranspileTime)])
+    }
+    if (result.stats) {
+      cards.push(['Runs', `${result.stats.runs} (median shown)`])
+    }
+
+    const breakdown = [
+      `${summary.userModules} app`,
+      `${summary.nodeModules} node_modules`,
+      `${summary.adonisModules} AdonisJS`,
+      `${summary.commonjsModules} CommonJS`,
+    ].join(' &middot; ')
+
+    const partial = result.partial
+      ? '<p class="warning">Partial results: the app was not ready when profiling stopped.</p>'
+      : ''
+
+    const cardsHtml = cards
+      .map(
+        ([label, value]) => `<div class="card"><span>${label}</span><strong>${value}</strong></div>`
+      )
+      .join('')
+
+    return `<section>
+<h2>Summary</h2>
+${partial}
+<div class="cards">${cardsHtml}</div>
+<p class="muted">${breakdown}</p>
+</section>`
+  }
+
+  #recommendations(result: ProfileResult, config: ResolvedConfig): string {
+    const recommendations = getRecommendations(result, config)
+    const content =
+      recommendations.length === 0
+        ? '<p class="ok">No major issues detected!</p>'
+        : `<ul>${recommendations.map((rec) => `<li>${escapeMarkup(rec)}</li>`).join('')}</ul>`
+
+    return `<section>
+<h2>Recommendations</h2>
+${content}
+</section>`
+  }
+
+  #modules(result: ProfileResult, config: ResolvedConfig, cwd: string): string {
+    const modules = new ProfileCollector(result.modules)
+      .filterModules(config)
+      .sort((a, b) => getEffectiveTime(b) - getEffectiveTime(a))
+
+    const rows = modules.map((m) => {
+      const tag = getFormatTag(m)
+      const name = `${escapeMarkup(simplifyUrl(m.resolvedUrl, cwd))}${tag ? ` <span class="tag">${tag}</span>` : ''}`
+      return row([
+        name,
+        time(getEffectiveTime(m)),
+        time(m.exclusiveTime ?? m.loadTime),
+        time(m.loadTime),
+        m.evaluationTime === undefined ? ['-', -1] : time(m.evaluationTime),
+      ])
+    })
+
+    const columns = [
+      { label: 'Module' },
+      { label: 'Total', numeric: true },
+      { label: 'Exclusive', numeric: true },
+      { label: 'Self', numeric: true },
+      { label: 'Eval', numeric: true },
+    ]
+
+    return `<section>
+<h2>Modules</h2>
+<p class="muted">Total includes dependencies, Exclusive is what would disappear if the module was removed, Self is the file alone.</p>
+${table('modules', columns, rows)}
+</section>`
+  }
+
+  #packages(result: ProfileResult, config: ResolvedConfig): string {
+    const filtered = new ProfileCollector(result.modules).filterModules(config)
+    const groups = new ProfileCollector(filtered).groupModulesByPackage()
+
+    const rows = groups.map((group) =>
+      row([
+        escapeMarkup(group.name),
+        [group.modules.length.toString(), group.modules.length],
+        time(group.totalTime),
+        time(group.exclusiveTime),
+      ])
+    )
+
+    const columns = [
+      { label: 'Package' },
+      { label: 'Modules', numeric: true },
+      { label: 'Self', numeric: true },
+      { label: 'Exclusive', numeric: true },
+    ]
+
+    return `<section>
+<h2>Packages</h2>
+${table('packages', columns, rows)}
+</section>`
+  }
+
+  #providers(result: ProfileResult): string {
+    if (result.providers.length === 0) {
+      return ''
+    }
+
+    const sorted = [...result.providers].sort((a, b) => b.totalTime - a.totalTime)
+    const maxTime = sorted[0].totalTime || 1
+    const phases = Object.keys(PHASE_COLORS) as ProviderPhase[]
+
+    const legend = phases
+      .map((phase) => `<span><i style="background:${PHASE_COLORS[phase]}"></i>${phase}()</span>`)
+      .join('')
+
+    const bars = sorted.map((provider) => {
+      const segments = phases
+        .map((phase) => {
+          const value = provider[PHASE_TIME_KEYS[phase]]
+          const width = (value / maxTime) * 100
+          const title = `${phase}(): ${formatDuration(value)}`
+          return value > 0
+            ? `<span style="width:${width.toFixed(2)}%;background:${PHASE_COLORS[phase]}" title="${title}"></span>`
+            : ''
+        })
+        .join('')
+      const failed = provider.errors?.length ? ' <span class="tag error">failed</span>' : ''
+
+      return `<div class="provider"><span class="name">${escapeMarkup(provider.name)}${failed}</span><span class="bar">${segments}</span><span class="value">${formatDuration(provider.totalTime)}</span></div>`
+    })
+
+    return `<section>
+<h2>Providers</h2>
+<p class="legend">${legend}</p>
+${bars.join('\n')}
+</section>`
+  }
+
+  /**
+   * Collapsible import tree. Modules imported from several places are
+   * listed under the import that loaded them first.
+   */
+  #importTree(result: ProfileResult, cwd: string): string {
+    const tree = buildDependencyTree(result.modules, cwd)
+    const seen = new Set<ModuleNode>()
+
+    const renderNode = (node: ModuleNode): string => {
+      seen.add(node)
+      const children = node.children.filter((child) => child.parent === node && !seen.has(child))
+      const label = `<span class="value">${formatDuration(getEffectiveTime(node.timing))}</span> ${escapeMarkup(node.displayName)}`
+
+      if (children.length === 0) {
+        return `<li class="leaf">${label}</li>`
+      }
+      return `<li><details><summary>${label}</summary><ul>${children.map(renderNode).join('')}</ul></details></li>`
+    }
+
+    const roots = [...tree.roots].sort(
+      (a, b) => getEffectiveTime(b.timing) - getEffectiveTime(a.timing)
+    )
+
+    return `<section>
+<h2>Import Tree</h2>
+<ul class="tree">${roots.map(renderNode).join('')}</ul>
+</section>`
+  }
+}
+
+/**
+ * Cell content with the value used to sort its column
+ */
+type Cell = string | [content: string, sortValue: number]
+
+function time(ms: number): Cell {
+  return [formatDuration(ms), ms]
+}
+
+function row(cells: Cell[]): string {
+  return `<tr>${cells
+    .map((cell) =>
+      typeof cell === 'string' ? `<td>${cell}</td>` : `<td data-value="${cell[1]}">${cell[0]}</td>`
+    )
+    .join('')}</tr>`
+}
+
+function table(id: string, columns: Column[], rows: string[]): string {
+  const head = columns
+    .map((c) => `<th${c.numeric ? ' class="numeric"' : ''}>${c.label}</th>`)
+    .join('')
+
+  return `<input type="search" placeholder="Filter ${id}..." data-filter="${id}">
+<table id="${id}" class="sortable"><thead><tr>${head}</tr></thead><tbody>${rows.join('\n')}</tbody></table>`
+}
+
+const STYLES = `
+:root { color-scheme: light dark; --muted: #6b7280; --border: #d1d5db33; --accent: #0891b2 }
+body { font: 14px/1.5 system-ui, sans-serif; max-width: 1100px; margin: 0 auto; padding: 24px }
+h1 { color: var(--accent); margin-bottom: 0 }
+section { margin-top: 32px }
+.muted { color: var(--muted) }
+.warning { color: #d97706 }
+.ok { color: #059669 }
+.cards { display: flex; flex-wrap: wrap; gap: 12px }
+.card { border: 1px solid var(--border); border-radius: 8px; padding: 12px 16px; min-width: 160px }
+.card span { display: block; color: var(--muted); font-size: 12px }
+.card strong { font-size: 20px }
+input[type=search] { width: 100%; padding: 6px 8px; margin-bottom: 8px; box-sizing: border-box }
+table { width: 100%; border-collapse: collapse }
+th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--border) }
+th { cursor: pointer; user-select: none; white-space: nowrap }
+th.numeric, td[data-value] { text-align: right; font-variant-numeric: tabular-nums }
+th[aria-sort=ascending]::after { content: ' \\25B2' }
+th[aria-sort=descending]::after { content: ' \\25BC' }
+.tag { font-size: 11px; padding: 0 4px; border-radius: 4px; border: 1px solid var(--border); color: var(--muted) }
+.tag.error { color: #dc2626 }
+.legend span { margin-right: 16px }
+.legend i { display: inline-block; width: 10px; height: 10px; margin-right: 4px; border-radius: 2px }
+.provider { display: flex; align-items: center; gap: 12px; margin: 4px 0 }
+.provider .name { width: 280px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap }
+.provider .bar { flex: 1; display: flex; height: 14px }
+.provider .bar span { height: 100%; min-width: 1px }
+.value { color: var(--muted); font-variant-numeric: tabular-nums }
+.provider .value { width: 80px; text-align: right }
+.tree, .tree ul { list-style: none; padding-left: 18px; margin: 0 }
+.tree .leaf { padding-left: 14px }
+summary { cursor: pointer }
+`
+
+const SCRIPT = `
+document.querySelectorAll('table.sortable').forEach((table) => {
+  table.querySelectorAll('th').forEach((th, index) => {
+    th.addEventListener('click', () => {
+      const descending = th.getAttribute('aria-sort') !== 'descending'
+      table.querySelectorAll('th').forEach((other) => other.removeAttribute('aria-sort'))
+      th.setAttribute('aria-sort', descending ? 'descending' : 'ascending')
+      const value = (row) => {
+        const cell = row.children[index]
+        return cell.dataset.value === undefined ? cell.textContent : Number(cell.dataset.value)
+      }
+      const body = table.tBodies[0]
+      const rows = [...body.rows].sort((a, b) => {
+        const [x, y] = [value(a), value(b)]
+        const order = typeof x === 'number' ? x - y : x.localeCompare(y)
+        return descending ? -order : order
+      })
+      body.append(...rows)
+    })
+  })
+})
+document.querySelectorAll('input[data-filter]').forEach((input) => {
+  const rows = document.getElementById(input.dataset.filter).tBodies[0].rows
+  input.addEventListener('input', () => {
+    const query = input.value.toLowerCase()
+    for (const row of rows) row.hidden = !row.textContent.toLowerCase().includes(query)
+  })
+})
+`
@@ -0,0 +1,81 @@
+/*
+|--------------------------------------------------------------------------
+| JSON Reporter
+|--------------------------------------------------------------------------
+|
+| Writes the complete profile as a versioned JSON document, meant to be
+| archived by CI pipelines and post-processed by scripts.
+|
+*/
+
+import { existsSync, readFileSync } from 'node:fs'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { ProfileDocument } from '#types'
+import { ProfileCollector } from '#profiler/collector'
+import type { ReportContext, Reporter } from './base_reporter.js'
+
+/**
+ * Version of the JSON document schema. Bump on breaking changes.
+ */
+export const PROFILE_FORMAT_VERSION = 1
+
+export class JsonReporter implements Reporter {
+  readonly #outputPath: string
+
+  constructor(outputPath: string) {
+    this.#outputPath = outputPath
+  }
+
+  /**
+   * Builds the JSON document for the given report context.
+   */
+  toDocument(context: ReportContext): ProfileDocument {
+    const { result, cwd } = context
+    const packages = new ProfileCollector(result.modules).groupModulesByPackage()
+
+    return {
+      formatVersion: PROFILE_FORMAT_VERSION,
+      docteurVersion: readDocteurVersion(),
+      nodeVersion: process.version,
+      entryPoint: context.entryPoint ?? 'bin/server.ts',
+      cwd,
+      createdAt: new Date().toISOString(),
+      result,
+      packages: packages.map((group) => ({
+        name: group.name,
+        totalTime: group.totalTime,
+        exclusiveTime: group.exclusiveTime,
+        modules: group.modules.map((m) => m.resolvedUrl),
+      })),
+    }
+  }
+
+  /**
+   * Writes the JSON document to the output path.
+   */
+  async render(context: ReportContext): Promise<void> {
+    await mkdir(dirname(this.#outputPath), { recursive: true })
+    await writeFile(this.#outputPath, JSON.stringify(this.toDocument(context), null, 2))
+  }
+}
+
+/**
+ * Reads the docteur version from its package.json. Walks up from this
+ * file since the depth differs between the source and the build output.
+ */
+export function readDocteurVersion(): string {
+  let dir = dirname(fileURLToPath(import.meta.url))
+
+  while (dir !== dirname(dir)) {
+    const pkgPath = join(dir, 'package.json')
+    if (existsSync(pkgPath)) {
+      const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'))
+      if (pkg.name === '@densetsuuu/docteur') return pkg.version
+    }
+    dir = dirname(dir)
+  }
+
+  return 'unknown'
+}
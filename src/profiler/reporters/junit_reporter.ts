@@ -0,0 +1,88 @@
+/*
+|--------------------------------------------------------------------------
+| JUnit Reporter
+|--------------------------------------------------------------------------
+|
+| Writes the performance budget checks as a JUnit XML report, one test
+| case per budget, so CI systems list cold start regressions next to
+| failing unit tests.
+|
+*/
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type { BudgetCheck } from '#types'
+import type { ReportContext, Reporter } from './base_reporter.js'
+import { escapeMarkup, formatBudgetValue } from './format.js'
+
+export class JunitReporter implements Reporter {
+  readonly #outputPath: string
+
+  constructor(outputPath: string) {
+    this.#outputPath = outputPath
+  }
+
+  /**
+   * Builds the JUnit XML document for the budgets of the given report
+   * context. Without budgets, the suite is empty.
+   */
+  toXml(context: ReportContext): string {
+    const { result } = context
+    const checks = context.budgets ?? []
+    const failures = checks.filter((check) => !check.passed).length
+    const time = seconds(result.totalTime)
+    const entryPoint = escapeMarkup(context.entryPoint ?? 'bin/server.ts')
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="docteur" tests="${checks.length}" failures="${failures}" errors="0" time="${time}">
+  <testsuite name="Performance budgets (${entryPoint})" tests="${checks.length}" failures="${failures}" errors="0" skipped="0" time="${time}" timestamp="${new Date().toISOString()}">
+${checks.map((check) => testCase(check)).join('\n')}
+  </testsuite>
+</testsuites>
+`
+  }
+
+  /**
+   * Writes the JUnit XML document to the output path.
+   */
+  async render(context: ReportContext): Promise<void> {
+    await mkdir(dirname(this.#outputPath), { recursive: true })
+    await writeFile(this.#outputPath, this.toXml(context))
+  }
+}
+
+/**
+ * Test case of a budget check. Time budgets report the measured time
+ * as the duration of the test case.
+ */
+function testCase(check: BudgetCheck): string {
+  const name = escapeMarkup(check.name)
+  const time = check.unit === 'ms' ? seconds(check.actual) : '0'
+  const open = `    <testcase classname="docteur.budgets" name="${name}" time="${time}"`
+
+  if (check.passed) {
+    return `${open}/>`
+  }
+
+  if (check.missing) {
+    return `${open}>
+      <failure message="${name}: not found in the profile" type="BudgetNotFound">Check the name in the budget for typos.</failure>
+    </testcase>`
+  }
+
+  const actual = formatBudgetValue(check.actual, check.unit)
+  const limit = formatBudgetValue(check.limit, check.unit)
+  const message = escapeMarkup(`${check.name}: ${actual} exceeds the budget of ${limit}`)
+
+  return `${open}>
+      <failure message="${message}" type="BudgetExceeded">Actual: ${escapeMarkup(actual)}
+Allowed: ${escapeMarkup(limit)}</failure>
+    </testcase>`
+}
+
+/**
+ * JUnit durations are in seconds
+ */
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3)
+}
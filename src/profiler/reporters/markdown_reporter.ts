@@ -0,0 +1,317 @@
+/*
+|--------------------------------------------------------------------------
+| Markdown Reporter
+|--------------------------------------------------------------------------
+|
+| Writes a compact GitHub-flavored markdown summary of the report, meant
+| to be posted as a pull request comment. With a baseline, it starts
+| with the changes against it.
+|
+*/
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type {
+  BudgetCheck,
+  Delta,
+  DeltaGroup,
+  ProfileComparison,
+  ProfileResult,
+  ResolvedConfig,
+} from '#types'
+import { PHASE_TIME_KEYS, ProfileCollector } from '#profiler/collector'
+import { getRecommendations } from '#profiler/recommendations'
+import { symbols } from '#registries/index'
+import type { ReportContext, Reporter } from './base_reporter.js'
+import {
+  formatBudgetValue,
+  formatDelta,
+  formatDuration,
+  getEffectiveTime,
+  getFormatTag,
+  simplifyUrl,
+} from './format.js'
+
+export class MarkdownReporter implements Reporter {
+  readonly #outputPath: string
+
+  constructor(outputPath: string) {
+    this.#outputPath = outputPath
+  }
+
+  /**
+   * Builds the markdown document for the given report context.
+   */
+  toMarkdown(context: ReportContext): string {
+    const { result, config, cwd } = context
+    const sections = [
+      `## ${symbols.stethoscope} Docteur - Cold Start Analysis`,
+      this.#summary(result),
+      context.comparison && this.#comparison(context.comparison, config.topModules),
+      context.budgets && this.#budgets(context.budgets),
+      this.#slowestModules(result, config, cwd),
+      config.groupByPackage && this.#packages(result, config),
+      this.#providers(result),
+      this.#recommendations(result, config),
+    ]
+
+    return sections.filter(Boolean).join('\n\n') + '\n'
+  }
+
+  /**
+   * Writes the markdown document to the output path.
+   */
+  async render(context: ReportContext): Promise<void> {
+    await mkdir(dirname(this.#outputPath), { recursive: true })
+    await writeFile(this.#outputPath, this.toMarkdown(context))
+  }
+
+  #summary(result: ProfileResult): string {
+    const rows: string[][] = []
+
+    if (result.stats) rows.push(['Runs', `${result.stats.runs} (median shown)`])
+    if (result.command) {
+      const { name, args } = result.command
+      rows.push(['Command', code(['ace', name, ...args].join(' '))])
+    }
+
+    rows.push(
+      [
+        result.command ? 'App boot time' : 'Total boot time',
+        bold(formatDuration(result.totalTime)),
+      ],
+      ['Modules loaded', result.summary.totalModules.toString()],
+      ['Module import time', formatDuration(result.summary.totalModuleTime)],
+      ['Provider exec time', formatDuration(result.summary.totalProviderTime)]
+    )
+
+    if (result.command) {
+      rows.push(['Command execution', formatDuration(result.command.executionTime)])
+    }
+    if (result.partial) {
+      rows.push(['Status', `${symbols.warning} partial results`])
+    }
+
+    return table(['Metric', 'Value'], rows)
+  }
+
+  #comparison(comparison: ProfileComparison, limit: number): string {
+    const timeRow = (label: string, d: Delta) => [
+      label,
+      formatDuration(d.baseline),
+      formatDuration(d.current),
+      formatDelta(d.delta),
+    ]
+    const countRow = (label: string, d: Delta) => [
+      label,
+      d.baseline.toString(),
+      d.current.toString(),
+      d.delta > 0 ? `+${d.delta}` : d.delta.toString(),
+    ]
+
+    const summary = table(
+      ['', 'Baseline', 'Current', 'Change'],
+      [
+        timeRow('Total boot time', comparison.totalTime),
+        countRow('Modules loaded', comparison.summary.totalModules),
+        timeRow('Module import time', comparison.summary.totalModuleTime),
+        timeRow('Provider exec time', comparison.summary.totalProviderTime),
+      ]
+    )
+
+    const groups = [
+      this.#deltaGroup('Modules', comparison.modules, limit),
+      this.#deltaGroup('Packages', comparison.packages, limit),
+      this.#deltaGroup('Providers', comparison.providers, limit),
+    ]
+
+    return [`### Compared to baseline`, this.#verdict(comparison), summary, ...groups]
+      .filter(Boolean)
+      .join('\n\n')
+  }
+
+  #verdict(comparison: ProfileComparison): string {
+    const { delta, baseline } = comparison.totalTime
+    const percent = baseline > 0 ? ` (${((delta / baseline) * 100).toFixed(1)}%)` : ''
+
+    if (delta > 0) {
+      return `${symbols.warning} Boot time regressed by **${formatDuration(delta)}**${percent}`
+    }
+    if (delta < 0) {
+      return `${symbols.checkmark} Boot time improved by **${formatDuration(-delta)}**${percent}`
+    }
+    return `${symbols.checkmark} Boot time unchanged`
+  }
+
+  /**
+   * Lists each kind of change up to the limit on its own, added and
+   * removed entries first, so a few noisy timing changes cannot hide
+   * new dependencies.
+   */
+  #deltaGroup(title: string, group: DeltaGroup, limit: number): string | undefined {
+    const changes = [
+      ['added', group.added],
+      ['removed', group.removed],
+      ['slower', group.slower],
+      ['faster', group.faster],
+    ] as const
+    const count = changes.reduce((sum, [, entries]) => sum + entries.length, 0)
+
+    if (count === 0) {
+      return undefined
+    }
+
+    const rows = changes.flatMap(([change, entries]) =>
+      entries
+        .slice(0, limit)
+        .map((entry) => [
+          code(entry.name),
+          change,
+          formatDuration(entry.baseline),
+          formatDuration(entry.current),
+          formatDelta(entry.delta),
+        ])
+    )
+
+    return details(
+      `${title} changes (${count})`,
+      table(['Name', '', 'Baseline', 'Current', 'Change'], rows) + more(count, rows.length)
+    )
+  }
+
+  #budgets(checks: BudgetCheck[]): string | undefined {
+    if (checks.length === 0) {
+      return undefined
+    }
+
+    const passed = checks.filter((check) => check.passed).length
+    const rows = [...checks]
+      .sort((a, b) => Number(a.passed) - Number(b.passed))
+      .map((check) => [
+        check.passed ? symbols.checkmark : symbols.cross,
+        escape(check.name),
+        check.missing ? 'not found' : formatBudgetValue(check.actual, check.unit),
+        formatBudgetValue(check.limit, check.unit),
+      ])
+
+    return [
+      `### ${symbols.target} Performance Budgets`,
+      `${passed}/${checks.length} within budget`,
+      table(['', 'Budget', 'Actual', 'Limit'], rows),
+    ].join('\n\n')
+  }
+
+  #slowestModules(result: ProfileResult, config: ResolvedConfig, cwd: string): string | undefined {
+    const slowest = new ProfileCollector(result.modules)
+      .filterModules(config)
+      .sort((a, b) => getEffectiveTime(b) - getEffectiveTime(a))
+      .slice(0, config.topModules)
+
+    if (slowest.length === 0) {
+      return undefined
+    }
+
+    const rows = slowest.map((module, index) => {
+      const tag = getFormatTag(module)
+      return [
+        (index + 1).toString(),
+        code(simplifyUrl(module.resolvedUrl, cwd)) + (tag ? ` [${tag}]` : ''),
+        formatDuration(getEffectiveTime(module)),
+        formatDuration(module.exclusiveTime ?? module.loadTime),
+        formatDuration(module.loadTime),
+      ]
+    })
+
+    return details(
+      `${symbols.turtle} Slowest modules (top ${slowest.length})`,
+      table(['#', 'Module', 'Total', 'Exclusive', 'Self'], rows)
+    )
+  }
+
+  #packages(result: ProfileResult, config: ResolvedConfig): string | undefined {
+    const filtered = new ProfileCollector(result.modules).filterModules(config)
+    const groups = new ProfileCollector(filtered).groupModulesByPackage().slice(0, 10)
+
+    if (groups.length === 0) {
+      return undefined
+    }
+
+    const rows = groups.map((group, index) => [
+      (index + 1).toString(),
+      code(group.name),
+      group.modules.length.toString(),
+      formatDuration(group.totalTime),
+      formatDuration(group.exclusiveTime),
+    ])
+
+    return details(
+      `${symbols.package} Slowest packages`,
+      table(['#', 'Package', 'Modules', 'Self', 'Exclusive'], rows)
+    )
+  }
+
+  #providers(result: ProfileResult): string | undefined {
+    if (result.providers.length === 0) {
+      return undefined
+    }
+
+    const rows = [...result.providers]
+      .sort((a, b) => b.totalTime - a.totalTime)
+      .map((provider) => [
+        escape(provider.name) + (provider.errors?.length ? ` ${symbols.cross}` : ''),
+        ...(['register', 'boot', 'start', 'ready'] as const).map((phase) =>
+          formatDuration(provider[PHASE_TIME_KEYS[phase]])
+        ),
+        formatDuration(provider.totalTime),
+      ])
+
+    return details(
+      `${symbols.lightning} Providers`,
+      table(['Provider', 'Register', 'Boot', 'Start', 'Ready', 'Total'], rows)
+    )
+  }
+
+  #recommendations(result: ProfileResult, config: ResolvedConfig): string {
+    const recommendations = getRecommendations(result, config)
+
+    if (recommendations.length === 0) {
+      return `${symbols.checkmark} No major issues detected!`
+    }
+
+    return [
+      `### ${symbols.lightbulb} Recommendations`,
+      recommendations.map((rec) => `- ${escape(rec)}`).join('\n'),
+    ].join('\n\n')
+  }
+}
+
+function table(head: string[], rows: string[][]): string {
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`
+  return [line(head), line(head.map(() => '---')), ...rows.map(line)].join('\n')
+}
+
+function details(summary: string, content: string): string {
+  return `<details>\n<summary>${summary}</summary>\n\n${content}\n\n</details>`
+}
+
+function more(count: number, limit: number): string {
+  return count > limit ? `\n\n… and ${count - limit} more` : ''
+}
+
+function bold(text: string): string {
+  return `**${text}**`
+}
+
+/**
+ * Inline code span, whose content needs no escaping besides pipes
+ */
+function code(text: string): string {
+  return `\`${text.replaceAll('`', "'").replaceAll('|', '\\|')}\``
+}
+
+/**
+ * Escapes the characters that would break tables or inline HTML
+ */
+function escape(text: string): string {
+  return text.replaceAll('|', '\\|').replaceAll('<', '&lt;').replaceAll('>', '&gt;')
+}
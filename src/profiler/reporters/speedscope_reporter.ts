@@ -0,0 +1,100 @@
+/*
+|--------------------------------------------------------------------------
+| Speedscope Reporter
+|--------------------------------------------------------------------------
+|
+| Writes the profile as a speedscope file (https://www.speedscope.app).
+| Module self times are weighted samples whose stack is the import
+| chain that loaded them, so the left-heavy and sandwich views show
+| which top-level import is ultimately responsible for a cost.
+|
+*/
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type { ProviderPhase, SpeedscopeDocument, SpeedscopeProfile } from '#types'
+import { PHASE_TIME_KEYS } from '#profiler/collector'
+import { buildDependencyTree, getImportChain } from '#xray/tree'
+import type { ReportContext, Reporter } from './base_reporter.js'
+import { readDocteurVersion } from './json_reporter.js'
+
+const PHASES = Object.keys(PHASE_TIME_KEYS) as ProviderPhase[]
+
+export class SpeedscopeReporter implements Reporter {
+  readonly #outputPath: string
+
+  constructor(outputPath: string) {
+    this.#outputPath = outputPath
+  }
+
+  /**
+   * Builds the speedscope document for the given report context: one
+   * profile for module imports and one for provider phases.
+   */
+  toDocument(context: ReportContext): SpeedscopeDocument {
+    const { result, cwd } = context
+    const frames: SpeedscopeDocument['shared']['frames'] = []
+    const frameIndex = new Map<string, number>()
+
+    const frame = (name: string, file?: string) => {
+      const key = file ?? name
+      if (!frameIndex.has(key)) {
+        frameIndex.set(key, frames.length)
+        frames.push(file ? { name, file } : { name })
+      }
+      return frameIndex.get(key)!
+    }
+
+    const tree = buildDependencyTree(result.modules, cwd)
+    const modules = createProfile('Module imports')
+    for (const node of tree.nodeMap.values()) {
+      if (node.timing.loadTime <= 0) continue
+      const stack = getImportChain(node).map((n) => frame(n.displayName, n.timing.resolvedUrl))
+      addSample(modules, stack, node.timing.loadTime)
+    }
+
+    const providers = createProfile('Provider phases')
+    for (const provider of result.providers) {
+      for (const phase of PHASES) {
+        const time = provider[PHASE_TIME_KEYS[phase]]
+        if (time <= 0) continue
+        addSample(providers, [frame(provider.name), frame(`${provider.name}.${phase}()`)], time)
+      }
+    }
+
+    return {
+      $schema: 'https://www.speedscope.app/file-format-schema.json',
+      name: `Docteur - ${context.entryPoint ?? 'bin/server.ts'}`,
+      exporter: `docteur@${readDocteurVersion()}`,
+      activeProfileIndex: 0,
+      shared: { frames },
+      profiles: [modules, providers],
+    }
+  }
+
+  /**
+   * Writes the speedscope document to the output path.
+   */
+  async render(context: ReportContext): Promise<void> {
+    await mkdir(dirname(this.#outputPath), { recursive: true })
+    await writeFile(this.#outputPath, JSON.stringify(this.toDocument(context)))
+  }
+}
+
+function createProfile(name: string): SpeedscopeProfile {
+  return {
+    type: 'sampled',
+    name,
+    unit: 'milliseconds',
+    startValue: 0,
+    endValue: 0,
+    samples: [],
+    weights: [],
+  }
+}
+
+function addSample(profile: SpeedscopeProfile, stack: number[], weight: number): void {
+  profile.samples.push(stack)
+  profile.weights.push(weight)
+  profile.endValue += weight
+}
@@ -0,0 +1,185 @@
+/*
+|--------------------------------------------------------------------------
+| Trace Reporter
+|--------------------------------------------------------------------------
+|
+| Writes the profile in the Chrome Trace Event Format, to explore it in
+| chrome://tracing, Perfetto or the DevTools Performance panel. Module
+| loads nest following the import graph, and provider lifecycle
+| methods get their own track.
+|
+*/
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type { ModuleTiming, TimeSpan, TraceDocument, TraceEvent } from '#types'
+import type { ReportContext, Reporter } from './base_reporter.js'
+
+/**
+ * Trace events only hold one process: the profiled app
+ */
+const PID = 1
+
+/**
+ * Slices placed on the same thread must nest. Overlapping slices that
+ * don't are moved to another lane, shown as a separate thread.
+ */
+interface Lane {
+  open: Array<TimeSpan & { id: string }>
+}
+
+export class TraceReporter implements Reporter {
+  readonly #outputPath: string
+
+  constructor(outputPath: string) {
+    this.#outputPath = outputPath
+  }
+
+  /**
+   * Builds the trace document for the given report context.
+   */
+  toTrace(context: ReportContext): TraceDocument {
+    const { result } = context
+    const events: TraceEvent[] = [metadata('process_name', 0, { name: 'Docteur' })]
+
+    const modules = result.modules
+      .filter((m) => m.startTime !== undefined && m.endTime !== undefined)
+      .sort((a, b) => a.startTime! - b.startTime! || b.endTime! - a.endTime!)
+
+    const moduleLanes: Lane[] = []
+    for (const module of modules) {
+      const span = { id: module.resolvedUrl, start: module.startTime!, end: module.endTime! }
+      const importers = module.importers?.map((importer) => importer.url) ?? [module.parentUrl]
+      const lane = place(moduleLanes, span, importers)
+
+      events.push({
+        name: module.specifier,
+        cat: 'module',
+        ph: 'X',
+        ts: microseconds(span.start),
+        dur: microseconds(span.end - span.start),
+        pid: PID,
+        tid: 1 + lane,
+        args: moduleArgs(module),
+      })
+    }
+
+    const providerLanes: Lane[] = []
+    const providerSlices = result.providers
+      .flatMap((provider) =>
+        Object.entries(provider.spans ?? {}).map(([phase, span]) => ({ provider, phase, span }))
+      )
+      .sort((a, b) => a.span.start - b.span.start || b.span.end - a.span.end)
+
+    const firstProviderTid = 1 + Math.max(moduleLanes.length, 1)
+    for (const { provider, phase, span } of providerSlices) {
+      const lane = place(providerLanes, { id: provider.name, ...span }, [])
+      const failed = provider.errors?.find((error) => error.phase === phase)
+
+      events.push({
+        name: `${provider.name}.${phase}()`,
+        cat: 'provider',
+        ph: 'X',
+        ts: microseconds(span.start),
+        dur: microseconds(span.end - span.start),
+        pid: PID,
+        tid: firstProviderTid + lane,
+        args: { provider: provider.name, phase, ...(failed ? { error: failed.message } : {}) },
+      })
+    }
+
+    moduleLanes.forEach((_, i) => events.push(...thread(1 + i, laneName('Modules', i))))
+    providerLanes.forEach((_, i) =>
+      events.push(...thread(firstProviderTid + i, laneName('Providers', i)))
+    )
+
+    if (result.readyAt !== undefined) {
+      events.push({
+        name: result.command ? 'App booted' : 'Ready',
+        cat: 'lifecycle',
+        ph: 'i',
+        s: 'g',
+        ts: microseconds(result.readyAt),
+        pid: PID,
+        tid: 1,
+      })
+    }
+
+    return {
+      traceEvents: events,
+      displayTimeUnit: 'ms',
+      metadata: {
+        'entry-point': context.entryPoint ?? 'bin/server.ts',
+        'node-version': process.version,
+        'cwd': context.cwd,
+      },
+    }
+  }
+
+  /**
+   * Writes the trace document to the output path.
+   */
+  async render(context: ReportContext): Promise<void> {
+    await mkdir(dirname(this.#outputPath), { recursive: true })
+    await writeFile(this.#outputPath, JSON.stringify(this.toTrace(context)))
+  }
+}
+
+/**
+ * Places a slice on the first lane where it nests, preferring the lane
+ * where one of its importers is still open. Returns the lane index.
+ */
+function place(lanes: Lane[], span: TimeSpan & { id: string }, importers: unknown[]): number {
+  for (const lane of lanes) {
+    while (lane.open.length > 0 && lane.open[lane.open.length - 1].end <= span.start) {
+      lane.open.pop()
+    }
+  }
+
+  const fits = (lane: Lane) => {
+    const top = lane.open[lane.open.length - 1]
+    return !top || span.end <= top.end
+  }
+
+  let index = lanes.findIndex(
+    (lane) => fits(lane) && importers.includes(lane.open[lane.open.length - 1]?.id)
+  )
+  if (index === -1) index = lanes.findIndex(fits)
+  if (index === -1) index = lanes.push({ open: [] }) - 1
+
+  lanes[index].open.push(span)
+  return index
+}
+
+function moduleArgs(module: ModuleTiming): Record<string, unknown> {
+  return {
+    url: module.resolvedUrl,
+    format: module.format,
+    loadTime: module.loadTime,
+    evaluationTime: module.evaluationTime,
+    transpileTime: module.transpileTime,
+    importedBy: module.importers?.[0]?.url ?? module.parentUrl,
+  }
+}
+
+function metadata(name: string, tid: number, args: Record<string, unknown>): TraceEvent {
+  return { name, ph: 'M', ts: 0, pid: PID, tid, args }
+}
+
+function thread(tid: number, name: string): TraceEvent[] {
+  return [
+    metadata('thread_name', tid, { name }),
+    metadata('thread_sort_index', tid, { sort_index: tid }),
+  ]
+}
+
+function laneName(name: string, index: number): string {
+  return index === 0 ? name : `${name} (${index + 1})`
+}
+
+/**
+ * Trace timestamps are in microseconds
+ */
+function microseconds(ms: number): number {
+  return Math.round(ms * 1000)
+}
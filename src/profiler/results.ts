@@ -0,0 +1,305 @@
+/*
+|--------------------------------------------------------------------------
+| Profiling Results
+|--------------------------------------------------------------------------
+|
+| Turns what the loader of a profiled process reported into a profile
+| result, including partial results of a run that timed out or exited
+| before being ready.
+|
+*/
+
+import type {
+  ModuleFormat,
+  ModuleImporter,
+  ModuleTiming,
+  ProfileResult,
+  ProviderPhase,
+  ProviderPhaseError,
+  TimeSpan,
+} from '#types'
+import { ProfileCollector } from './collector.js'
+import type { ProfileOptions } from './profiler.js'
+import { simplifyUrl } from '#profiler/reporters/format'
+
+type ResultsOptions = Pick<ProfileOptions, 'mode' | 'args' | 'excludeTranspile' | 'includeBuiltins'>
+
+/**
+ * Results reported by the loader of the profiled app, over IPC or in
+ * the results file
+ */
+export type ResultsData = {
+  loadTimes: Record<string, number>
+  formats?: Record<string, ModuleFormat>
+  evaluationTimes?: Record<string, number>
+  transpileTimes?: Record<string, number>
+  importers: Record<string, ModuleImporter[]>
+  startTimes?: Record<string, number>
+  endTimes?: Record<string, number>
+  providerPhases: Record<string, Record<string, number>>
+  providerSpans?: Record<string, ProviderSpans>
+  providerErrors?: Array<{ provider: string; phase: string; message: string; stack?: string }>
+  bootEnd: number
+  readyTime?: number
+  exitTime?: number
+  pendingModules?: Record<string, number>
+  pendingEvaluations?: Record<string, number>
+  pendingPhases?: Record<string, Record<string, number>>
+  pendingSpans?: Record<string, ProviderSpans>
+}
+
+type ProviderSpans = Partial<Record<ProviderPhase, TimeSpan>>
+
+/**
+ * What was collected from a profiled process
+ */
+export interface ProfilerState {
+  providerPhases: Map<string, Record<string, number>>
+  providerErrors: Map<string, ProviderPhaseError[]>
+  loadTimes: Map<string, number>
+  formats: Map<string, ModuleFormat>
+  evaluationTimes: Map<string, number>
+  transpileTimes: Map<string, number>
+  importers: Map<string, ModuleImporter[]>
+  startTimes: Map<string, number>
+  endTimes: Map<string, number>
+  providerSpans: Map<string, ProviderSpans>
+  bootDuration?: [number, number]
+  readyLag?: number
+  bootEnd?: number
+  readyTime?: number
+  exitTime?: number
+  exitCode?: number
+  pendingModules: Map<string, number>
+  pendingEvaluations: Map<string, number>
+  pendingPhases: Map<string, Record<string, number>>
+
+  /**
+   * Maps compiled file URLs to their source, when profiling a build
+   */
+  sourceUrl: (url: string) => string
+  compiledUrls: Map<string, string>
+  timedOut: boolean
+  done: boolean
+}
+
+export function createProfilerState(
+  sourceUrl: (url: string) => string = (url) => url
+): ProfilerState {
+  return {
+    providerPhases: new Map(),
+    providerErrors: new Map(),
+    loadTimes: new Map(),
+    formats: new Map(),
+    evaluationTimes: new Map(),
+    transpileTimes: new Map(),
+    importers: new Map(),
+    startTimes: new Map(),
+    endTimes: new Map(),
+    providerSpans: new Map(),
+    pendingModules: new Map(),
+    pendingEvaluations: new Map(),
+    pendingPhases: new Map(),
+    sourceUrl,
+    compiledUrls: new Map(),
+    timedOut: false,
+    done: false,
+  }
+}
+
+/**
+ * Stores the results reported by the app, with module URLs mapped to
+ * their source
+ */
+export function applyResults(state: ProfilerState, data: ResultsData): void {
+  const byUrl = <T>(record: Record<string, T> = {}) => {
+    return new Map(Object.entries(record).map(([url, value]) => [state.sourceUrl(url), value]))
+  }
+
+  state.loadTimes = byUrl(data.loadTimes)
+  state.formats = byUrl(data.formats)
+  state.evaluationTimes = byUrl(data.evaluationTimes)
+  state.transpileTimes = byUrl(data.transpileTimes)
+  state.importers = byUrl(data.importers)
+  state.startTimes = byUrl(data.startTimes)
+  state.endTimes = byUrl(data.endTimes)
+  state.providerPhases = new Map(Object.entries(data.providerPhases || {}))
+  state.providerSpans = new Map(Object.entries(data.providerSpans || {}))
+
+  for (const [name, pending] of Object.entries(data.pendingSpans || {})) {
+    state.providerSpans.set(name, { ...state.providerSpans.get(name), ...pending })
+  }
+  state.bootEnd = data.bootEnd
+  state.readyTime = data.readyTime
+  state.exitTime = data.exitTime
+  state.pendingModules = byUrl(data.pendingModules)
+  state.pendingEvaluations = byUrl(data.pendingEvaluations)
+  state.pendingPhases = new Map(Object.entries(data.pendingPhases || {}))
+  state.providerErrors = new Map()
+
+  for (const url of [...Object.keys(data.loadTimes), ...Object.keys(data.pendingModules || {})]) {
+    const source = state.sourceUrl(url)
+    if (source !== url) state.compiledUrls.set(source, url)
+  }
+
+  for (const importers of state.importers.values()) {
+    for (const importer of importers) importer.url = state.sourceUrl(importer.url)
+  }
+
+  for (const { provider, phase, message, stack } of data.providerErrors || []) {
+    const errors = state.providerErrors.get(provider) ?? []
+    errors.push({ phase: phase as ProviderPhase, message, stack })
+    state.providerErrors.set(provider, errors)
+  }
+}
+
+/**
+ * Builds the results of a run. Production-equivalent results leave the
+ * transpilation time out of the boot time, as it was part of it.
+ */
+export function buildResults(
+  state: ProfilerState,
+  cwd: string,
+  options: ResultsOptions
+): ProfileResult {
+  const result = buildModeResults(state, cwd, options)
+
+  if (options.excludeTranspile) {
+    result.totalTime = Math.max(result.totalTime - result.summary.totalTranspileTime, 0)
+  }
+
+  return result
+}
+
+function buildModeResults(
+  state: ProfilerState,
+  cwd: string,
+  options: ResultsOptions
+): ProfileResult {
+  const mode = options.mode ?? 'web'
+  const loaded = [...state.loadTimes].filter(
+    ([url]) => options.includeBuiltins || state.formats.get(url) !== 'builtin'
+  )
+  const modules: ModuleTiming[] = loaded.map(([url, loadTime]) => {
+    const transpileTime = state.transpileTimes.get(url)
+    const module = createModuleTiming(state, url, loadTime, cwd)
+    if (transpileTime === undefined) return module
+
+    return {
+      ...module,
+      loadTime: options.excludeTranspile ? loadTime : loadTime + transpileTime,
+      transpileTime,
+    }
+  })
+
+  if (state.timedOut || (mode === 'web' && state.exitCode !== undefined)) {
+    return buildPartialResults(state, modules, cwd)
+  }
+
+  const collector = new ProfileCollector(modules, withPendingPhases(state))
+
+  if (mode === 'ace') {
+    const bootEnd = state.bootEnd ?? 0
+    const [name = '', ...args] = options.args ?? []
+    const result = collector.collectResults(bootEnd)
+    result.readyAt = state.bootEnd
+    result.command = {
+      name,
+      args,
+      executionTime: Math.max((state.exitTime ?? bootEnd) - bootEnd, 0),
+      exitCode: state.exitCode ?? 0,
+    }
+    return markProviderStatus(result, state)
+  }
+
+  if (mode === 'test') {
+    const readyAt = state.readyTime ?? state.bootEnd
+    return markProviderStatus({ ...collector.collectResults(readyAt ?? 0), readyAt }, state)
+  }
+
+  const readyAt =
+    state.readyTime === undefined ? undefined : state.readyTime - (state.readyLag ?? 0)
+  const bootTimeMs = state.bootDuration
+    ? state.bootDuration[0] * 1000 + state.bootDuration[1] / 1_000_000
+    : (readyAt ?? 0)
+
+  return markProviderStatus({ ...collector.collectResults(bootTimeMs), readyAt }, state)
+}
+
+function createModuleTiming(
+  state: ProfilerState,
+  url: string,
+  loadTime: number,
+  cwd: string
+): ModuleTiming {
+  const importers = state.importers.get(url) ?? []
+  const startTime = state.startTimes.get(url)
+  return {
+    specifier: simplifyUrl(url, cwd),
+    resolvedUrl: url,
+    loadTime,
+    format: state.formats.get(url),
+    parentUrl: importers[0]?.url,
+    importers,
+    evaluationTime: state.evaluationTimes.get(url) ?? state.pendingEvaluations.get(url),
+    compiledUrl: state.compiledUrls.get(url),
+    startTime,
+    endTime:
+      state.endTimes.get(url) ?? (startTime === undefined ? undefined : startTime + loadTime),
+  }
+}
+
+/**
+ * Builds the results of a run that timed out or exited before being
+ * ready, including the modules still loading with their elapsed time.
+ */
+function buildPartialResults(
+  state: ProfilerState,
+  modules: ModuleTiming[],
+  cwd: string
+): ProfileResult {
+  for (const module of modules) {
+    if (state.pendingEvaluations.has(module.resolvedUrl)) module.incomplete = true
+  }
+
+  for (const [url, elapsed] of state.pendingModules) {
+    modules.push({ ...createModuleTiming(state, url, elapsed, cwd), incomplete: true })
+  }
+
+  const readyAt = state.readyTime ?? state.exitTime
+  const result = new ProfileCollector(modules, withPendingPhases(state)).collectResults(
+    readyAt ?? 0
+  )
+
+  result.readyAt = readyAt
+  result.partial = true
+  if (!state.timedOut) result.exitCode = state.exitCode
+  return markProviderStatus(result, state)
+}
+
+/**
+ * Provider phases, including the ones that never finished with the
+ * time elapsed until the results were collected
+ */
+function withPendingPhases(state: ProfilerState): Map<string, Record<string, number>> {
+  const providerPhases = new Map(state.providerPhases)
+  for (const [name, pending] of state.pendingPhases) {
+    providerPhases.set(name, { ...providerPhases.get(name), ...pending })
+  }
+  return providerPhases
+}
+
+/**
+ * Attaches when each provider phase ran, and flags the phases that
+ * failed or never finished
+ */
+function markProviderStatus(result: ProfileResult, state: ProfilerState): ProfileResult {
+  for (const provider of result.providers) {
+    provider.spans = state.providerSpans.get(provider.name)
+    const pending = state.pendingPhases.get(provider.name)
+    const errors = state.providerErrors.get(provider.name)
+    if (pending) provider.incompletePhases = Object.keys(pending) as ProviderPhase[]
+    if (errors) provider.errors = errors
+  }
+  return result
+}
@@ -0,0 +1,174 @@
+/*
+|--------------------------------------------------------------------------
+| Run Statistics
+|--------------------------------------------------------------------------
+|
+| Aggregates the results of multiple profiling runs into a single
+| result holding medians, with the full distribution (mean, min, max,
+| p95, standard deviation) attached to each timing.
+|
+*/
+
+import type {
+  ModuleTiming,
+  ProfileResult,
+  ProviderPhase,
+  ProviderPhaseError,
+  TimingStats,
+} from '#types'
+import { PHASE_TIME_KEYS, ProfileCollector } from './collector.js'
+import { getEffectiveTime } from '#profiler/reporters/format'
+
+const PHASES = Object.keys(PHASE_TIME_KEYS) as ProviderPhase[]
+
+export function computeStats(values: number[]): TimingStats {
+  const sorted = [...values].sort((a, b) => a - b)
+  const count = sorted.length
+  const mid = Math.floor(count / 2)
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / count
+  const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / count
+
+  return {
+    median: count % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2,
+    mean,
+    min: sorted[0],
+    max: sorted[count - 1],
+    p95: sorted[Math.max(Math.ceil(count * 0.95) - 1, 0)],
+    stdDev: Math.sqrt(variance),
+  }
+}
+
+/**
+ * Merges several runs into one result. Modules are matched by resolved
+ * URL and providers by name; entries missing from some runs are
+ * aggregated over the runs they appear in. A provider phase that failed
+ * or never finished in any run is flagged as such.
+ */
+export function aggregateResults(results: ProfileResult[]): ProfileResult {
+  const moduleSamples = new Map<
+    string,
+    {
+      module: ModuleTiming
+      loadTimes: number[]
+      subtreeTimes: number[]
+      exclusiveTimes: number[]
+      evaluationTimes: number[]
+      transpileTimes: number[]
+    }
+  >()
+
+  for (const result of results) {
+    for (const m of result.modules) {
+      const samples = moduleSamples.get(m.resolvedUrl) ?? {
+        module: m,
+        loadTimes: [],
+        subtreeTimes: [],
+        exclusiveTimes: [],
+        evaluationTimes: [],
+        transpileTimes: [],
+      }
+      samples.loadTimes.push(m.loadTime)
+      samples.subtreeTimes.push(getEffectiveTime(m))
+      samples.exclusiveTimes.push(m.exclusiveTime ?? m.loadTime)
+      if (m.evaluationTime !== undefined) samples.evaluationTimes.push(m.evaluationTime)
+      if (m.transpileTime !== undefined) samples.transpileTimes.push(m.transpileTime)
+      moduleSamples.set(m.resolvedUrl, samples)
+    }
+  }
+
+  const modules: ModuleTiming[] = [...moduleSamples.values()].map((samples) => {
+    const stats = {
+      loadTime: computeStats(samples.loadTimes),
+      subtreeTime: computeStats(samples.subtreeTimes),
+      exclusiveTime: computeStats(samples.exclusiveTimes),
+      evaluationTime: samples.evaluationTimes.length
+        ? computeStats(samples.evaluationTimes)
+        : undefined,
+      transpileTime: samples.transpileTimes.length
+        ? computeStats(samples.transpileTimes)
+        : undefined,
+    }
+    return {
+      ...samples.module,
+      loadTime: stats.loadTime.median,
+      subtreeTime: stats.subtreeTime.median,
+      exclusiveTime: stats.exclusiveTime.median,
+      evaluationTime: stats.evaluationTime?.median,
+      transpileTime: stats.transpileTime?.median,
+      stats,
+    }
+  })
+
+  const providerSamples = new Map<string, Record<ProviderPhase | 'total', number[]>>()
+
+  for (const result of results) {
+    for (const p of result.providers) {
+      const samples = providerSamples.get(p.name) ?? {
+        register: [],
+        boot: [],
+        start: [],
+        ready: [],
+        shutdown: [],
+        total: [],
+      }
+      for (const phase of PHASES) samples[phase].push(p[PHASE_TIME_KEYS[phase]])
+      samples.total.push(p.totalTime)
+      providerSamples.set(p.name, samples)
+    }
+  }
+
+  const providerStats = new Map(
+    [...providerSamples].map(([name, samples]) => [
+      name,
+      Object.fromEntries(
+        Object.entries(samples).map(([phase, values]) => [phase, computeStats(values)])
+      ) as Record<ProviderPhase | 'total', TimingStats>,
+    ])
+  )
+
+  const providerPhases = new Map(
+    [...providerStats].map(([name, stats]) => [
+      name,
+      Object.fromEntries(PHASES.map((phase) => [phase, stats[phase].median])),
+    ])
+  )
+
+  const totalTime = computeStats(results.map((r) => r.totalTime))
+  const aggregated = new ProfileCollector(modules, providerPhases).collectResults(totalTime.median)
+
+  // Timestamps can't be combined across runs, the timeline shows the first one
+  const spans = new Map(
+    results.flatMap((r) => r.providers.map((p) => [p.name, p.spans] as const)).reverse()
+  )
+  aggregated.readyAt = results[0].readyAt
+
+  for (const provider of aggregated.providers) {
+    const runs = results.flatMap((r) => r.providers.filter((p) => p.name === provider.name))
+    const errors = uniqueErrors(runs.flatMap((p) => p.errors ?? []))
+    const incompletePhases = [...new Set(runs.flatMap((p) => p.incompletePhases ?? []))]
+
+    provider.stats = providerStats.get(provider.name)
+    provider.spans = spans.get(provider.name)
+    if (errors.length) provider.errors = errors
+    if (incompletePhases.length) provider.incompletePhases = incompletePhases
+  }
+
+  // A command failing in any run is reported with the exit code of its first failure
+  const commands = results.flatMap((r) => (r.command ? [r.command] : []))
+  if (commands.length) {
+    const command = commands.find((c) => c.exitCode !== 0) ?? commands[0]
+    const executionTime = computeStats(commands.map((c) => c.executionTime))
+    aggregated.command = { ...command, executionTime: executionTime.median }
+  }
+
+  aggregated.stats = { runs: results.length, totalTime }
+  return aggregated
+}
+
+/**
+ * Errors thrown in several runs, listed once
+ */
+function uniqueErrors(errors: ProviderPhaseError[]): ProviderPhaseError[] {
+  const byKey = new Map(errors.map((error) => [`${error.phase}:${error.message}`, error]))
+  return [...byKey.values()]
+}
@@ -0,0 +1,168 @@
+/*
+|--------------------------------------------------------------------------
+| Boot Timeline
+|--------------------------------------------------------------------------
+|
+| Reconstructs what happened while the app was booting from the
+| timestamps of module loads and provider lifecycle methods, and lays
+| it out as a waterfall to reveal the critical path to server ready.
+|
+*/
+
+import type { ProfileResult, ProviderPhase, TimelineEntry, TimeSpan } from '#types'
+import { symbols } from '#registries/index'
+
+export interface TimelineOptions {
+  /**
+   * Number of slowest modules shown on their own row
+   */
+  topModules?: number
+
+  /**
+   * Shortest gap, in milliseconds, reported as idle time
+   */
+  minGap?: number
+}
+
+export interface WaterfallRow {
+  kind: TimelineEntry['kind']
+  label: string
+
+  /**
+   * Time covered by the entries of the row, in milliseconds
+   */
+  duration: number
+
+  /**
+   * Bar of the row, one character per column: filled while busy,
+   * shaded while idle, blank otherwise
+   */
+  bar: string
+}
+
+/**
+ * Lifecycle methods shown on the timeline. Shutdown happens after the
+ * app is ready, so it is not part of the boot.
+ */
+const BOOT_PHASES: ProviderPhase[] = ['register', 'boot', 'start', 'ready']
+
+/**
+ * Builds the boot timeline of a profile. Modules loading at the same
+ * time are merged into "modules" entries, and periods where neither
+ * modules nor providers were busy show up as "idle" entries.
+ */
+export function buildTimeline(
+  result: ProfileResult,
+  options: TimelineOptions = {}
+): TimelineEntry[] {
+  const { topModules = 5, minGap = 1 } = options
+
+  const moduleSpans = result.modules
+    .filter((m) => m.startTime !== undefined && m.endTime !== undefined)
+    .map((m) => ({ module: m, start: m.startTime!, end: m.endTime! }))
+
+  if (moduleSpans.length === 0 && !result.providers.some((p) => p.spans)) return []
+
+  const entries: TimelineEntry[] = mergeSpans(moduleSpans).map((span) => ({
+    ...span,
+    kind: 'modules',
+    label: 'Module loading',
+  }))
+
+  moduleSpans
+    .sort((a, b) => selfTime(b.module) - selfTime(a.module))
+    .slice(0, topModules)
+    .forEach(({ module, start, end }) => {
+      entries.push({ kind: 'module', label: module.specifier, start, end })
+    })
+
+  const providerSpans: TimeSpan[] = []
+  for (const provider of result.providers) {
+    for (const phase of BOOT_PHASES) {
+      const span = provider.spans?.[phase]
+      if (!span) continue
+      providerSpans.push(span)
+      entries.push({ kind: 'provider', label: `${provider.name} ${phase}`, phase, ...span })
+    }
+  }
+
+  const end = Math.max(result.readyAt ?? 0, ...entries.map((entry) => entry.end))
+  const busy = mergeSpans([...moduleSpans, ...providerSpans])
+  findGaps(busy, end)
+    .filter((gap) => gap.end - gap.start >= minGap)
+    .forEach((gap) => {
+      const label = gap.start === 0 ? 'Node.js startup' : 'Idle'
+      entries.push({ kind: 'idle', label, ...gap })
+    })
+
+  return entries.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Lays out the timeline as a waterfall: one row per label, with bars
+ * scaled so the whole boot fits in `width` columns. Entries sharing a
+ * label (module loading, idle time) share a row.
+ */
+export function renderWaterfall(entries: TimelineEntry[], width: number): WaterfallRow[] {
+  const end = Math.max(0, ...entries.map((entry) => entry.end))
+  const rows = new Map<string, WaterfallRow & { cells: string[] }>()
+
+  for (const entry of entries) {
+    const key = `${entry.kind}:${entry.label}`
+    if (!rows.has(key)) {
+      const cells = new Array<string>(width).fill(' ')
+      rows.set(key, { kind: entry.kind, label: entry.label, duration: 0, bar: '', cells })
+    }
+
+    const row = rows.get(key)!
+    row.duration += entry.end - entry.start
+
+    const first = end > 0 ? Math.min(width - 1, Math.floor((entry.start / end) * width)) : 0
+    const last = end > 0 ? Math.max(first + 1, Math.ceil((entry.end / end) * width)) : width
+    const fill = entry.kind === 'idle' ? symbols.barEmpty : symbols.barFull
+    row.cells.fill(fill, first, Math.min(last, width))
+  }
+
+  return [...rows.values()].map(({ cells, ...row }) => ({ ...row, bar: cells.join('') }))
+}
+
+/**
+ * Time a module spent on its own, excluding its dependencies
+ */
+function selfTime(module: { loadTime: number; evaluationTime?: number }): number {
+  return module.loadTime + (module.evaluationTime ?? 0)
+}
+
+/**
+ * Merges overlapping spans into disjoint ones, sorted by start
+ */
+function mergeSpans(spans: TimeSpan[]): TimeSpan[] {
+  const merged: TimeSpan[] = []
+
+  for (const { start, end } of [...spans].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1]
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end)
+    } else {
+      merged.push({ start, end })
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Periods between 0 and `end` not covered by any of the disjoint spans
+ */
+function findGaps(busy: TimeSpan[], end: number): TimeSpan[] {
+  const gaps: TimeSpan[] = []
+  let cursor = 0
+
+  for (const span of busy) {
+    if (span.start > cursor) gaps.push({ start: cursor, end: span.start })
+    cursor = Math.max(cursor, span.end)
+  }
+
+  if (end > cursor) gaps.push({ start: cursor, end })
+  return gaps
+}
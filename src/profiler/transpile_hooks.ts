@@ -0,0 +1,32 @@
+/*
+|--------------------------------------------------------------------------
+| Transpile Hooks
+|--------------------------------------------------------------------------
+|
+| Registered after @poppinss/ts-exec, so their load hook wraps the
+| ts-exec one. The time measured here includes transpilation, while the
+| inner hooks only see the raw source being read.
+|
+*/
+
+import type { InitializeHook, LoadHook } from 'node:module'
+import { performance } from 'node:perf_hooks'
+import type { MessagePort } from 'node:worker_threads'
+
+let port: MessagePort
+
+export const initialize: InitializeHook<{ port: MessagePort }> = (data) => {
+  port = data.port
+}
+
+export const load: LoadHook = async (url, context, next) => {
+  if (!url.startsWith('file://')) {
+    return next(url, context)
+  }
+
+  const start = performance.now()
+  const result = await next(url, context)
+  port.postMessage({ type: 'outerTiming', url, loadTime: performance.now() - start })
+
+  return result
+}
@@ -0,0 +1,26 @@
+/*
+|--------------------------------------------------------------------------
+| Transpile Loader
+|--------------------------------------------------------------------------
+|
+| Imported after @poppinss/ts-exec to register the transpile hooks
+| around it. Their timings are handed over to the profiler loader.
+|
+*/
+
+import { register } from 'node:module'
+import { MessageChannel } from 'node:worker_threads'
+import { recordOuterTiming } from './loader.js'
+
+const { port1, port2 } = new MessageChannel()
+
+port1.on('message', (msg: { type: string; url: string; loadTime: number }) => {
+  if (msg.type === 'outerTiming') recordOuterTiming(msg.url, msg.loadTime)
+})
+port1.unref()
+
+register('./transpile_hooks.js', {
+  parentURL: import.meta.url,
+  data: { port: port2 },
+  transferList: [port2],
+})
@@ -88,6 +88,11 @@ export const categories: Record<AppFileCategory, CategoryDefinition> = {
     icon: symbols.start,
     patterns: ['/start/'],
   },
+  test: {
+    displayName: 'Tests',
+    icon: symbols.test,
+    patterns: ['/tests/'],
+  },
   other: {
     displayName: 'Other',
     icon: symbols.file,
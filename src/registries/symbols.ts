@@ -24,6 +24,7 @@ export const symbols = {
   provider: '\uD83D\uDD0C', // 🔌
   config: '\u2699\uFE0F', // ⚙️
   start: '\uD83D\uDE80', // 🚀
+  test: '\uD83E\uDDEA', // 🧪
   file: '\uD83D\uDCC4', // 📄
   folder: '\uD83D\uDCC1', // 📁
 
@@ -38,6 +39,8 @@ export const symbols = {
   chart: '\uD83D\uDCCA', // 📊
   lightbulb: '\uD83D\uDCA1', // 💡
   stethoscope: '\uD83E\uDE7A', // 🩺
+  target: '\uD83C\uDFAF', // 🎯
+  stopwatch: '\u23F1\uFE0F', // ⏱️
 
   // Bars (for progress indicators)
   barFull: '\u2588', // █
@@ -48,6 +51,7 @@ export const symbols = {
   // Misc
   dash: '\u2500', // ─
   bullet: '\u2022', // •
+  plusMinus: '\u00B1', // ±
   arrow: '\u2192', // →
   arrowLeft: '\u2190', // ←
   arrowUp: '\u2191', // ↑
@@ -7,6 +7,8 @@
 |
 */
 
+import type { CategoryDefinition } from '#registries/categories'
+
 /**
  * Timing information for a single module import
  */
@@ -22,20 +24,116 @@ export interface ModuleTiming {
   resolvedUrl: string
 
   /**
-   * Time in milliseconds to load the module (file read + parse)
+   * Time in milliseconds to load the module (file read + transform).
+   * Includes transpileTime, unless production-equivalent numbers were
+   * requested.
    */
   loadTime: number
 
   /**
-   * The URL of the parent module that imported this one
+   * Module system the module was loaded with
+   */
+  format?: ModuleFormat
+
+  /**
+   * URL of the compiled file that was actually loaded, when profiling a
+   * production build. resolvedUrl then points at its source file.
+   */
+  compiledUrl?: string
+
+  /**
+   * Time spent transpiling a TypeScript file on the fly, which does not
+   * happen with a production build
+   */
+  transpileTime?: number
+
+  /**
+   * The URL of the parent module that imported this one first,
+   * triggering its load
    */
   parentUrl?: string
 
   /**
-   * Total time including all transitive dependencies.
-   * This represents the actual impact of importing this module.
+   * Every module importing this one, in resolution order
+   */
+  importers?: ModuleImporter[]
+
+  /**
+   * Inclusive time: the module plus all its transitive dependencies,
+   * each counted once even when shared with other importers
    */
   subtreeTime?: number
+
+  /**
+   * Exclusive time: the module plus the dependencies only reachable
+   * through it, i.e. the time that would disappear if it was removed
+   */
+  exclusiveTime?: number
+
+  /**
+   * URL of the closest module every import chain to this one goes
+   * through. Undefined when the module is only dominated by the entry.
+   */
+  immediateDominator?: string
+
+  /**
+   * When the module started loading, in milliseconds since the process
+   * started
+   */
+  startTime?: number
+
+  /**
+   * When the module finished loading and evaluating, in milliseconds
+   * since the process started. The span includes its dependencies.
+   */
+  endTime?: number
+
+  /**
+   * Time spent running the module body, including top-level await but
+   * not the evaluation of its static imports
+   */
+  evaluationTime?: number
+
+  /**
+   * Whether the module was still loading or evaluating when profiling
+   * timed out. loadTime or evaluationTime then holds the time elapsed so far.
+   */
+  incomplete?: boolean
+
+  /**
+   * Distribution of the timings across runs, when profiled multiple times.
+   * loadTime, subtreeTime, exclusiveTime, evaluationTime and transpileTime
+   * then hold the medians.
+   */
+  stats?: {
+    loadTime: TimingStats
+    subtreeTime: TimingStats
+    exclusiveTime: TimingStats
+    evaluationTime?: TimingStats
+    transpileTime?: TimingStats
+  }
+}
+
+/**
+ * Format a module was loaded with: ES modules through `import`,
+ * CommonJS modules through `require()` (or imported from ES modules),
+ * JSON files, WebAssembly modules and Node.js builtins
+ */
+export type ModuleFormat = 'module' | 'commonjs' | 'json' | 'wasm' | 'builtin'
+
+/**
+ * An import of a module by another one
+ */
+export interface ModuleImporter {
+  /**
+   * URL of the importing module
+   */
+  url: string
+
+  /**
+   * Specifier used in the import statement
+   */
+  specifier: string
 }
 
 /**
@@ -76,6 +174,112 @@ export interface ProviderTiming {
    * Total time (register + boot + start + ready)
    */
   totalTime: number
+
+  /**
+   * Distribution of each phase across runs, when profiled multiple times.
+   * Phase times then hold the medians.
+   */
+  stats?: Record<ProviderPhase | 'total', TimingStats>
+
+  /**
+   * Phases that never finished, still running when the results were
+   * collected. Their times hold the time elapsed so far.
+   */
+  incompletePhases?: ProviderPhase[]
+
+  /**
+   * Errors thrown by the lifecycle methods
+   */
+  errors?: ProviderPhaseError[]
+
+  /**
+   * When each lifecycle method ran
+   */
+  spans?: Partial<Record<ProviderPhase, TimeSpan>>
+}
+
+/**
+ * A period of time, in milliseconds since the process started
+ */
+export interface TimeSpan {
+  start: number
+  end: number
+}
+
+/**
+ * An entry of the boot timeline
+ */
+export interface TimelineEntry extends TimeSpan {
+  /**
+   * What happened: modules loading, a single module, a provider
+   * lifecycle method, or nothing being tracked
+   */
+  kind: 'modules' | 'module' | 'provider' | 'idle'
+
+  label: string
+
+  /**
+   * Lifecycle method, for provider entries
+   */
+  phase?: ProviderPhase
+}
+
+/**
+ * Statistical distribution of a timing across multiple runs
+ */
+export interface TimingStats {
+  median: number
+  mean: number
+  min: number
+  max: number
+  p95: number
+  stdDev: number
+}
+
+/**
+ * AdonisJS provider lifecycle phases
+ */
+export type ProviderPhase = 'register' | 'boot' | 'start' | 'ready' | 'shutdown'
+
+/**
+ * Error thrown by a provider lifecycle method
+ */
+export interface ProviderPhaseError {
+  phase: ProviderPhase
+  message: string
+  stack?: string
+}
+
+/**
+ * What the profiled process runs: the HTTP server, an ace command,
+ * or the Japa test runner
+ */
+export type ProfileMode = 'web' | 'ace' | 'test'
+
+/**
+ * Timing of an ace command run after the application booted
+ */
+export interface CommandTiming {
+  /**
+   * Command name (e.g., "migration:run")
+   */
+  name: string
+
+  /**
+   * Arguments and flags passed to the command
+   */
+  args: string[]
+
+  /**
+   * Time spent executing the command, from the end of the app boot
+   * to the process exit, in milliseconds
+   */
+  executionTime: number
+
+  /**
+   * Exit code of the process
+   */
+  exitCode: number
 }
 
 /**
@@ -87,6 +291,14 @@ export interface ProfileResult {
    */
   totalTime: number
 
+  /**
+   * When the app was ready, in milliseconds since the process started,
+   * on the same clock as module and provider spans. For ace commands,
+   * when the app booted, and for partial results, when they were
+   * collected.
+   */
+  readyAt?: number
+
   /**
    * All module timing data
    */
@@ -101,6 +313,228 @@ export interface ProfileResult {
    * Summary statistics
    */
   summary: ProfileSummary
+
+  /**
+   * Command timing, when an ace command was profiled. `totalTime`
+   * then only covers the app boot.
+   */
+  command?: CommandTiming
+
+  /**
+   * Whether the production build was profiled
+   */
+  production?: boolean
+
+  /**
+   * Whether profiling timed out or the app exited before being ready,
+   * so the result only holds what was collected until then. `totalTime`
+   * is then the time until the timeout or the exit.
+   */
+  partial?: boolean
+
+  /**
+   * Exit code of the app, when it exited before being ready
+   */
+  exitCode?: number
+
+  /**
+   * Aggregation details, when the application was profiled multiple times.
+   * All timings then hold the medians across runs.
+   */
+  stats?: {
+    runs: number
+    totalTime: TimingStats
+  }
+}
+
+/**
+ * Versioned JSON document produced by the JSON reporter.
+ * Carries enough metadata to interpret archived profiles later.
+ */
+export interface ProfileDocument {
+  /**
+   * Version of the document schema, bumped on breaking changes
+   */
+  formatVersion: number
+
+  /**
+   * Version of docteur that produced the profile
+   */
+  docteurVersion: string
+
+  /**
+   * Version of Node.js the profiled application ran on
+   */
+  nodeVersion: string
+
+  /**
+   * Entry point that was profiled (e.g., 'bin/server.ts')
+   */
+  entryPoint: string
+
+  /**
+   * Working directory of the profiled application
+   */
+  cwd: string
+
+  /**
+   * ISO timestamp of when the document was generated
+   */
+  createdAt: string
+
+  /**
+   * Complete profiling results
+   */
+  result: ProfileResult
+
+  /**
+   * Modules grouped by npm package, referenced by resolved URL
+   */
+  packages: {
+    name: string
+    totalTime: number
+    exclusiveTime: number
+    modules: string[]
+  }[]
+}
+
+/**
+ * Performance budgets evaluated against a profile. All times are in
+ * milliseconds; any exceeded budget makes `diagnose` exit non-zero.
+ */
+export interface PerformanceBudget {
+  /**
+   * Maximum total cold start time
+   */
+  maxTotalTime?: number
+
+  /**
+   * Maximum number of loaded modules
+   */
+  maxModules?: number
+
+  /**
+   * Maximum subtree time per module, keyed by path relative to the app
+   * root (e.g., 'start/routes.ts') or by package path for dependencies
+   */
+  modules?: Record<string, number>
+
+  /**
+   * Maximum time per npm package, keyed by package name. Includes the
+   * dependencies only that package imports.
+   */
+  packages?: Record<string, number>
+
+  /**
+   * Maximum time per lifecycle phase, keyed by provider class name
+   */
+  providers?: Record<string, Partial<Record<ProviderPhase, number>>>
+}
+
+/**
+ * Outcome of evaluating a single budget
+ */
+export interface BudgetCheck {
+  /**
+   * Human readable description of what was measured
+   */
+  name: string
+
+  /**
+   * Measured value
+   */
+  actual: number
+
+  /**
+   * Maximum allowed value
+   */
+  limit: number
+
+  /**
+   * Unit of the measured value
+   */
+  unit: 'ms' | 'modules'
+
+  /**
+   * Whether the measured value is within the limit
+   */
+  passed: boolean
+
+  /**
+   * Whether the module, package or provider named by the budget was not
+   * found in the profile. The check then fails.
+   */
+  missing?: boolean
+}
+
+/**
+ * Change of a single value between a baseline and a current profile
+ */
+export interface Delta {
+  /**
+   * Value in the baseline profile
+   */
+  baseline: number
+
+  /**
+   * Value in the current profile
+   */
+  current: number
+
+  /**
+   * current - baseline (positive means slower or more)
+   */
+  delta: number
+}
+
+/**
+ * Change of a named entry (module, package or provider) between two profiles
+ */
+export interface EntryDelta extends Delta {
+  /**
+   * Normalized name used to match the entry across profiles
+   */
+  name: string
+}
+
+/**
+ * Entries bucketed by how they changed, each ranked by the size of the change
+ */
+export interface DeltaGroup {
+  added: EntryDelta[]
+  removed: EntryDelta[]
+  slower: EntryDelta[]
+  faster: EntryDelta[]
+}
+
+/**
+ * Result of comparing a profile against a baseline
+ */
+export interface ProfileComparison {
+  /**
+   * Change in total cold start time
+   */
+  totalTime: Delta
+
+  /**
+   * Change in each numeric summary statistic
+   */
+  summary: Record<Exclude<keyof ProfileSummary, 'appFileGroups'>, Delta>
+
+  /**
+   * Modules keyed by their simplified URL
+   */
+  modules: DeltaGroup
+
+  /**
+   * Packages keyed by package name
+   */
+  packages: DeltaGroup
+
+  /**
+   * Providers keyed by provider name
+   */
+  providers: DeltaGroup
 }
 
 /**
@@ -121,7 +555,9 @@ export type AppFileCategory =
   | 'provider'
   | 'config'
   | 'start'
+  | 'test'
   | 'other'
+  | (string & {})
 
 /**
  * Grouped app files by category
@@ -143,7 +579,9 @@ export interface AppFileGroup {
   files: ModuleTiming[]
 
   /**
-   * Total load time for all files in this category
+   * Load time owned by the files in this category: their own time plus
+   * the dependencies they dominate, so categories add up without
+   * counting shared modules twice
    */
   totalTime: number
 }
@@ -173,10 +611,20 @@ export interface ProfileSummary {
   adonisModules: number
 
   /**
-   * Total time spent loading modules
+   * Number of modules loaded as CommonJS
+   */
+  commonjsModules: number
+
+  /**
+   * Total time spent loading modules (sum of their own load times)
    */
   totalModuleTime: number
 
+  /**
+   * Total time spent transpiling TypeScript files
+   */
+  totalTranspileTime: number
+
   /**
    * Total time spent in provider lifecycle
    */
@@ -189,32 +637,230 @@ export interface ProfileSummary {
 }
 
 /**
- * Configuration options for Docteur
+ * Event of the Chrome Trace Event Format, as read by chrome://tracing,
+ * Perfetto and the DevTools Performance panel
+ */
+export interface TraceEvent {
+  name: string
+
+  /**
+   * Phase: complete slice (X), instant (i) or metadata (M)
+   */
+  ph: 'X' | 'i' | 'M'
+
+  /**
+   * Timestamp and duration, in microseconds
+   */
+  ts: number
+  dur?: number
+
+  pid: number
+  tid: number
+  cat?: string
+  s?: 'g' | 'p' | 't'
+  args?: Record<string, unknown>
+}
+
+/**
+ * Trace file produced by the trace reporter
+ */
+export interface TraceDocument {
+  traceEvents: TraceEvent[]
+  displayTimeUnit: 'ms'
+  metadata: Record<string, string>
+}
+
+/**
+ * Sampled profile of the speedscope file format. Each sample is a
+ * stack of frame indices, root first, weighted in milliseconds.
+ */
+export interface SpeedscopeProfile {
+  type: 'sampled'
+  name: string
+  unit: 'milliseconds'
+  startValue: number
+  endValue: number
+  samples: number[][]
+  weights: number[]
+}
+
+/**
+ * File produced by the speedscope reporter
+ */
+export interface SpeedscopeDocument {
+  $schema: 'https://www.speedscope.app/file-format-schema.json'
+  name: string
+  exporter: string
+  activeProfileIndex: number
+  shared: { frames: Array<{ name: string; file?: string }> }
+  profiles: SpeedscopeProfile[]
+}
+
+/**
+ * Reports written alongside the console output, mapped to output paths
+ */
+export interface ReporterOutputs {
+  /**
+   * Write the full profile as a versioned JSON document
+   */
+  json?: string
+
+  /**
+   * Write the profile as a Chrome trace, for chrome://tracing or Perfetto
+   */
+  trace?: string
+
+  /**
+   * Write the import chains and provider phases as a speedscope file
+   */
+  speedscope?: string
+
+  /**
+   * Write a self-contained HTML report, readable without docteur
+   */
+  html?: string
+
+  /**
+   * Write a markdown summary, e.g. to post as a pull request comment
+   */
+  markdown?: string
+
+  /**
+   * Write the import tree as an SVG flame graph
+   */
+  flamegraph?: string
+
+  /**
+   * Write modules and providers as CSV files to this directory
+   */
+  csv?: string
+
+  /**
+   * Write modules and providers as TSV files to this directory
+   */
+  tsv?: string
+
+  /**
+   * Write the performance budget checks as a JUnit XML report
+   */
+  junit?: string
+}
+
+/**
+ * Configuration options for Docteur, usually declared in a
+ * `docteur.config.ts` file with `defineConfig`
  */
 export interface DocteurConfig {
+  /**
+   * Entry point to profile, relative to the app root
+   * @default 'bin/server.ts'
+   */
+  entry?: string
+
   /**
    * Number of slowest modules to display in the report
    * @default 20
    */
-  topModules: number
+  topModules?: number
 
   /**
    * Only show modules that took longer than this threshold (in ms)
    * @default 1
    */
-  threshold: number
+  threshold?: number
 
   /**
    * Include node_modules in the analysis
    * @default true
    */
-  includeNodeModules: boolean
+  includeNodeModules?: boolean
 
   /**
    * Group modules by package name
    * @default true
    */
-  groupByPackage: boolean
+  groupByPackage?: boolean
+
+  /**
+   * Number of measured runs, reported as medians
+   * @default 1
+   */
+  runs?: number
+
+  /**
+   * Number of warmup runs discarded before measuring
+   * @default 0
+   */
+  warmup?: number
+
+  /**
+   * Text the HTTP server prints once ready, used when the app does not
+   * report readiness over IPC. Also matched against IPC messages.
+   * @default 'started HTTP server'
+   */
+  readySignal?: string
+
+  /**
+   * Maximum time to wait for the app to be ready, in milliseconds
+   * @default 30000
+   */
+  timeout?: number
+
+  /**
+   * Report what was collected when profiling times out instead of failing
+   * @default false
+   */
+  partialOnTimeout?: boolean
+
+  /**
+   * Leave TypeScript transpilation out of the reported times, to get
+   * production-equivalent numbers
+   * @default false
+   */
+  excludeTranspile?: boolean
+
+  /**
+   * Include Node.js builtins (`node:*`) in the analysis
+   * @default false
+   */
+  includeBuiltins?: boolean
+
+  /**
+   * Profile the production build instead of the sources
+   * @default false
+   */
+  production?: boolean
+
+  /**
+   * Directory `node ace build` writes the production build to
+   * @default 'build'
+   */
+  buildDir?: string
+
+  /**
+   * Additional app file categories, matched after the built-in ones.
+   * Redefining a built-in category replaces it.
+   * @default {}
+   */
+  categories?: Record<string, CategoryDefinition>
+
+  /**
+   * Hide modules whose URL contains any of these patterns from the reports
+   * @default []
+   */
+  ignore?: string[]
+
+  /**
+   * Performance budgets that fail `diagnose` when exceeded
+   * @default {}
+   */
+  budgets?: PerformanceBudget
+
+  /**
+   * Reports to write in addition to the console output
+   * @default {}
+   */
+  reporters?: ReporterOutputs
 }
 
 /**
@@ -4,14 +4,16 @@ import SelectInput from 'ink-select-input'
 import type { DependencyTree, ModuleNode } from '../tree.js'
 import {
   formatDuration,
+  formatVariance,
   getEffectiveTime,
-  getImportChain,
+  getImportChains,
   getFileIcon,
   getSourceIcon,
   getTimeColor,
   isDependency,
 } from '../tree.js'
 import { symbols } from '#registries/index'
+import type { ModuleFormat } from '#types'
 
 interface Props {
   node: ModuleNode
@@ -45,10 +47,22 @@ function ItemComponent({ isSelected = false, label }: ItemProps) {
 // Threshold for suggesting lazy imports (50ms)
 const LAZY_IMPORT_THRESHOLD = 50
 
-export function ModuleView({ node, tree: _tree, onNavigate, onBack }: Props) {
-  const importChain = useMemo(() => getImportChain(node), [node])
+// Labels for the module formats, ES modules being the default
+const FORMAT_LABELS: Partial<Record<ModuleFormat, string>> = {
+  commonjs: 'CommonJS module',
+  json: 'JSON file',
+  wasm: 'WebAssembly module',
+  builtin: 'Node.js builtin',
+}
+
+export function ModuleView({ node, tree, onNavigate, onBack }: Props) {
+  const importChains = useMemo(() => getImportChains(node), [node])
   const time = getEffectiveTime(node.timing)
   const selfTime = node.timing.loadTime
+  const exclusiveTime = node.timing.exclusiveTime
+  const evaluationTime = node.timing.evaluationTime
+  const transpileTime = node.timing.transpileTime
+  const stats = node.timing.stats
 
   // Find heavy dependencies that could be lazy loaded
   const lazyImportCandidates = useMemo(() => {
@@ -88,34 +102,60 @@ export function ModuleView({ node, tree: _tree, onNavigate, onBack }: Props) {
       }
     }
 
-    // Import chain (why loaded)
-    if (importChain.length > 1) {
+    // Import chains (why loaded)
+    const chains = importChains.filter((chain) => chain.length > 1)
+    if (chains.length > 0) {
       result.push({
         key: 'sep-why',
-        label: '--- Why was this loaded? ---',
+        label:
+          chains.length > 1
+            ? `--- Why was this loaded? (${chains.length} import paths) ---`
+            : '--- Why was this loaded? ---',
         value: 'back',
       })
-      for (let i = 0; i < importChain.length - 1; i++) {
-        const chainNode = importChain[i]
-        const indent = '  '.repeat(i)
-        const chainTime = getEffectiveTime(chainNode.timing)
-        const fileIcon = getFileIcon(chainNode.timing.resolvedUrl)
-        const sourceIcon = getSourceIcon(chainNode.timing.resolvedUrl)
-        const isEntry = i === 0
+      chains.forEach((chain, c) => {
+        if (c > 0) result.push({ key: `spacer-why-${c}`, label: '', value: 'back' })
+        for (let i = 0; i < chain.length - 1; i++) {
+          const chainNode = chain[i]
+          const indent = '  '.repeat(i)
+          const chainTime = getEffectiveTime(chainNode.timing)
+          const fileIcon = getFileIcon(chainNode.timing.resolvedUrl)
+          const sourceIcon = getSourceIcon(chainNode.timing.resolvedUrl)
+          const isEntry = i === 0
+          result.push({
+            key: `chain-${c}-${i}-${chainNode.timing.resolvedUrl}`,
+            label: `${indent}${isEntry ? '\u25B6' : '\u2514\u2500'} ${sourceIcon} ${fileIcon}  ${chainNode.displayName} (${formatDuration(chainTime)})`,
+            value: chainNode,
+          })
+        }
+        const currentIndent = '  '.repeat(chain.length - 1)
+        const currentFileIcon = getFileIcon(node.timing.resolvedUrl)
+        const currentSourceIcon = getSourceIcon(node.timing.resolvedUrl)
         result.push({
-          key: `chain-${i}-${chainNode.timing.resolvedUrl}`,
-          label: `${indent}${isEntry ? '\u25B6' : '\u2514\u2500'} ${sourceIcon} ${fileIcon}  ${chainNode.displayName} (${formatDuration(chainTime)})`,
-          value: chainNode,
+          key: `current-${c}`,
+          label: `${currentIndent}\u2514\u2500 ${currentSourceIcon} ${currentFileIcon}  ${node.displayName} ${symbols.arrowLeft} YOU ARE HERE`,
+          value: 'back',
         })
-      }
-      const currentIndent = '  '.repeat(importChain.length - 1)
-      const currentFileIcon = getFileIcon(node.timing.resolvedUrl)
-      const currentSourceIcon = getSourceIcon(node.timing.resolvedUrl)
+      })
+    }
+
+    // Direct importers, with the specifier they used
+    const importers = node.timing.importers ?? []
+    if (importers.length > 1) {
+      result.push({ key: 'spacer-importers', label: '', value: 'back' })
       result.push({
-        key: 'current',
-        label: `${currentIndent}\u2514\u2500 ${currentSourceIcon} ${currentFileIcon}  ${node.displayName} ${symbols.arrowLeft} YOU ARE HERE`,
+        key: 'sep-importers',
+        label: `--- Imported by (${importers.length} imports) ---`,
         value: 'back',
       })
+      importers.forEach((importer, i) => {
+        const importerNode = tree.nodeMap.get(importer.url)
+        result.push({
+          key: `importer-${i}-${importer.url}`,
+          label: `  ${symbols.arrowLeft} ${importerNode?.displayName ?? importer.url} as '${importer.specifier}'`,
+          value: importerNode ?? 'back',
+        })
+      })
     }
 
     // Children (what it imports)
@@ -156,7 +196,7 @@ export function ModuleView({ node, tree: _tree, onNavigate, onBack }: Props) {
     }
 
     return result
-  }, [node, importChain, lazyImportCandidates])
+  }, [node, tree, importChains, lazyImportCandidates])
 
   const handleSelect = (item: SelectItem) => {
     if (item.value === 'back') {
@@ -187,6 +227,9 @@ export function ModuleView({ node, tree: _tree, onNavigate, onBack }: Props) {
           </Text>
         </Box>
         <Text dimColor> {node.timing.resolvedUrl}</Text>
+        {node.timing.format && FORMAT_LABELS[node.timing.format] && (
+          <Text dimColor> {FORMAT_LABELS[node.timing.format]}</Text>
+        )}
       </Box>
 
       {/* Timing */}
@@ -194,13 +237,51 @@ export function ModuleView({ node, tree: _tree, onNavigate, onBack }: Props) {
         <Box>
           <Text dimColor> Total time: </Text>
           <Text color={getTimeColor(time)}>{formatDuration(time)}</Text>
+          {stats && <Text dimColor> {formatVariance(stats.subtreeTime)}</Text>}
           <Text dimColor> (with dependencies)</Text>
         </Box>
+        {exclusiveTime !== undefined && (
+          <Box>
+            <Text dimColor> Exclusive time: </Text>
+            <Text color={getTimeColor(exclusiveTime)}>{formatDuration(exclusiveTime)}</Text>
+            {stats && <Text dimColor> {formatVariance(stats.exclusiveTime)}</Text>}
+            <Text dimColor> (saved if removed)</Text>
+          </Box>
+        )}
         <Box>
           <Text dimColor> Self time: </Text>
           <Text color={getTimeColor(selfTime)}>{formatDuration(selfTime)}</Text>
+          {stats && <Text dimColor> {formatVariance(stats.loadTime)}</Text>}
           <Text dimColor> (this file only)</Text>
         </Box>
+        {transpileTime !== undefined && (
+          <Box>
+            <Text dimColor> Transpile time: </Text>
+            <Text color={getTimeColor(transpileTime)}>{formatDuration(transpileTime)}</Text>
+            {stats?.transpileTime && <Text dimColor> {formatVariance(stats.transpileTime)}</Text>}
+            <Text dimColor> (TypeScript, dev only)</Text>
+          </Box>
+        )}
+        {evaluationTime !== undefined && (
+          <Box>
+            <Text dimColor> Evaluation time: </Text>
+            <Text color={getTimeColor(evaluationTime)}>{formatDuration(evaluationTime)}</Text>
+            {stats?.evaluationTime && (
+              <Text dimColor> {formatVariance(stats.evaluationTime)}</Text>
+            )}
+            <Text dimColor> (running the module body)</Text>
+          </Box>
+        )}
+        {node.timing.incomplete && (
+          <Text color="yellow"> {symbols.warning} Still loading or evaluating when profiling timed out</Text>
+        )}
+        {stats && (
+          <Text dimColor>
+            {' '}
+            Medians across runs (min {formatDuration(stats.subtreeTime.min)}, p95{' '}
+            {formatDuration(stats.subtreeTime.p95)}, max {formatDuration(stats.subtreeTime.max)})
+          </Text>
+        )}
       </Box>
 
       {/* Lazy import tip for heavy modules */}
@@ -7,7 +7,7 @@ import { symbols } from '#registries/index'
 interface Props {
   providers: ProviderTiming[]
   onSelect: (provider: ProviderTiming) => void
-  onSwitchToModules: () => void
+  onSwitchToTimeline: () => void
 }
 
 interface SelectItem {
@@ -57,7 +57,7 @@ function ItemComponent({ isSelected = false, timeStr, timeColor, name, label }:
   )
 }
 
-export function ProviderListView({ providers, onSelect, onSwitchToModules }: Props) {
+export function ProviderListView({ providers, onSelect, onSwitchToTimeline }: Props) {
   const sorted = [...providers].sort((a, b) => b.totalTime - a.totalTime)
 
   const items: SelectItem[] = [
@@ -66,8 +66,8 @@ export function ProviderListView({ providers, onSelect, onSwitchToModules }: Pro
       label: provider.name,
       value: provider,
       timeStr: formatDuration(provider.totalTime).padStart(10),
-      timeColor: getTimeColor(provider.totalTime),
-      name: provider.name,
+      timeColor: provider.errors?.length ? 'red' : getTimeColor(provider.totalTime),
+      name: provider.errors?.length ? `${provider.name} ${symbols.cross}` : provider.name,
     })),
     {
       key: 'spacer',
@@ -79,7 +79,7 @@ export function ProviderListView({ providers, onSelect, onSwitchToModules }: Pro
     },
     {
       key: 'switch',
-      label: `${symbols.turtle} Switch to Modules (Tab)`,
+      label: `${symbols.stopwatch} Switch to Timeline (Tab)`,
       value: 'switch' as const,
       timeStr: '',
       timeColor: 'green',
@@ -89,7 +89,7 @@ export function ProviderListView({ providers, onSelect, onSwitchToModules }: Pro
 
   const handleSelect = (item: { value: ProviderTiming | 'switch' }) => {
     if (item.value === 'switch') {
-      onSwitchToModules()
+      onSwitchToTimeline()
     } else {
       onSelect(item.value)
     }
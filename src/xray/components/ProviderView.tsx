@@ -1,7 +1,7 @@
 import { Box, Text } from 'ink'
 import SelectInput from 'ink-select-input'
-import type { ProviderTiming } from '#types'
-import { formatDuration, getTimeColor } from '../tree.js'
+import type { ProviderPhase, ProviderTiming, TimingStats } from '#types'
+import { formatDuration, formatVariance, getTimeColor } from '../tree.js'
 import { symbols } from '#registries/index'
 
 interface Props {
@@ -22,9 +22,12 @@ interface PhaseRowProps {
   label: string
   value: number
   max: number
+  stats?: TimingStats
+  incomplete?: boolean
+  failed?: boolean
 }
 
-function PhaseRow({ label, value, max }: PhaseRowProps) {
+function PhaseRow({ label, value, max, stats, incomplete, failed }: PhaseRowProps) {
   const timeStr = formatDuration(value).padStart(10)
   const color = getTimeColor(value)
 
@@ -34,18 +37,28 @@ function PhaseRow({ label, value, max }: PhaseRowProps) {
       <Text color={color}>{timeStr}</Text>
       <Text> </Text>
       <Bar value={value} max={max} width={25} />
+      {stats && <Text dimColor> {formatVariance(stats)}</Text>}
+      {failed && <Text color="red"> {symbols.cross} failed</Text>}
+      {incomplete && !failed && <Text color="yellow"> {symbols.warning} never finished</Text>}
     </Box>
   )
 }
 
 export function ProviderView({ provider, onBack }: Props) {
-  const phases = [
-    { label: 'register()', value: provider.registerTime },
-    { label: 'boot()', value: provider.bootTime },
-    { label: 'start()', value: provider.startTime },
-    { label: 'ready()', value: provider.readyTime },
+  const rows: Array<{ phase: ProviderPhase; label: string; value: number }> = [
+    { phase: 'register', label: 'register()', value: provider.registerTime },
+    { phase: 'boot', label: 'boot()', value: provider.bootTime },
+    { phase: 'start', label: 'start()', value: provider.startTime },
+    { phase: 'ready', label: 'ready()', value: provider.readyTime },
   ]
 
+  const phases = rows.map((row) => ({
+    ...row,
+    stats: provider.stats?.[row.phase],
+    incomplete: provider.incompletePhases?.includes(row.phase),
+    failed: provider.errors?.some((error) => error.phase === row.phase),
+  }))
+
   const maxPhaseTime = Math.max(...phases.map((p) => p.value), 1)
 
   const items = [{ key: 'back', label: `${symbols.arrowLeft} Back`, value: 'back' as const }]
@@ -91,11 +104,33 @@ export function ProviderView({ provider, onBack }: Props) {
               label={phase.label}
               value={phase.value}
               max={maxPhaseTime}
+              stats={phase.stats}
+              incomplete={phase.incomplete}
+              failed={phase.failed}
             />
           ))}
         </Box>
       </Box>
 
+      {/* Errors */}
+      {provider.errors && provider.errors.length > 0 && (
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold color="red">
+            {' '}
+            Errors:
+          </Text>
+          {provider.errors.map((error) => (
+            <Box key={`${error.phase}:${error.message}`} flexDirection="column" marginTop={1} paddingLeft={1}>
+              <Text>
+                <Text color="red">{error.phase}(): </Text>
+                {error.message}
+              </Text>
+              {error.stack && <Text dimColor>{error.stack.split('\n').slice(1, 6).join('\n')}</Text>}
+            </Box>
+          ))}
+        </Box>
+      )}
+
       {/* Explanation */}
       <Box flexDirection="column" marginBottom={1} paddingLeft={1}>
         <Text dimColor>
@@ -0,0 +1,75 @@
+import { Box, Text } from 'ink'
+import SelectInput from 'ink-select-input'
+import type { ProfileResult, TimelineEntry } from '#types'
+import { buildTimeline, renderWaterfall } from '#profiler/timeline'
+import { formatDuration } from '../tree.js'
+import { symbols } from '#registries/index'
+
+interface Props {
+  result: ProfileResult
+  onSwitchToModules: () => void
+}
+
+const BAR_WIDTH = 50
+
+const ROW_COLORS: Record<TimelineEntry['kind'], string> = {
+  modules: 'cyan',
+  module: 'blue',
+  provider: 'magenta',
+  idle: 'gray',
+}
+
+export function TimelineView({ result, onSwitchToModules }: Props) {
+  const entries = buildTimeline(result)
+  const rows = renderWaterfall(entries, BAR_WIDTH)
+  const end = Math.max(0, ...entries.map((entry) => entry.end))
+
+  const items = [
+    { key: 'switch', label: `${symbols.turtle} Switch to Modules (Tab)`, value: 'switch' as const },
+  ]
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold color="cyan">
+          {' '}
+          {symbols.stopwatch} Docteur X-Ray - Boot Timeline
+        </Text>
+      </Box>
+      <Box marginBottom={1}>
+        <Text dimColor> What ran when, from process start to ready</Text>
+      </Box>
+
+      {rows.length === 0 ? (
+        <Box marginBottom={1}>
+          <Text dimColor> No timestamps were recorded for this profile</Text>
+        </Box>
+      ) : (
+        <Box flexDirection="column" marginBottom={1}>
+          <Text dimColor>
+            {' '}
+            {''.padEnd(32)} 0ms{formatDuration(end).padStart(BAR_WIDTH - 3)}
+          </Text>
+          {rows.map((row) => (
+            <Box key={`${row.kind}:${row.label}`}>
+              <Text>
+                {' '}
+                {(row.label.length > 30 ? `…${row.label.slice(-29)}` : row.label).padEnd(32)}{' '}
+              </Text>
+              <Text color={ROW_COLORS[row.kind]}>{row.bar}</Text>
+              <Text dimColor> {formatDuration(row.duration)}</Text>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      <Box flexDirection="column">
+        <SelectInput items={items} onSelect={onSwitchToModules} />
+      </Box>
+
+      <Box marginTop={1}>
+        <Text dimColor> Tab: switch view | ESC/q: quit</Text>
+      </Box>
+    </Box>
+  )
+}
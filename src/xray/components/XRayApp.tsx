@@ -6,13 +6,20 @@ import { ListView } from './ListView.js'
 import { ModuleView } from './ModuleView.js'
 import { ProviderListView } from './ProviderListView.js'
 import { ProviderView } from './ProviderView.js'
+import { TimelineView } from './TimelineView.js'
 
 interface Props {
   result: ProfileResult
   cwd: string
 }
 
-type View = 'modules' | 'providers'
+type View = 'modules' | 'providers' | 'timeline'
+
+const NEXT_VIEW: Record<View, View> = {
+  modules: 'providers',
+  providers: 'timeline',
+  timeline: 'modules',
+}
 
 export function XRayApp({ result, cwd }: Props) {
   const { exit } = useApp()
@@ -69,9 +76,9 @@ export function XRayApp({ result, cwd }: Props) {
         exit()
       }
     }
-    // Tab to switch between views (when at root)
+    // Tab to cycle through views (when at root)
     if (key.tab && !currentModule && !selectedProvider) {
-      switchView(view === 'modules' ? 'providers' : 'modules')
+      switchView(NEXT_VIEW[view])
     }
   })
 
@@ -96,11 +103,16 @@ export function XRayApp({ result, cwd }: Props) {
           clearScreen()
           setSelectedProvider(p)
         }}
-        onSwitchToModules={() => switchView('modules')}
+        onSwitchToTimeline={() => switchView('timeline')}
       />
     )
   }
 
+  // Boot timeline view
+  if (view === 'timeline') {
+    return <TimelineView result={result} onSwitchToModules={() => switchView('modules')} />
+  }
+
   // Modules list view (default)
   return (
     <ListView
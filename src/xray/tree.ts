@@ -3,13 +3,19 @@
 | Dependency Tree
 |--------------------------------------------------------------------------
 |
-| Builds a tree structure from module timings for the xray TUI.
-| Provides utilities for traversing and displaying the tree.
+| Builds the import graph from module timings for the xray TUI.
+| Each module keeps all its importers, and the first one (which
+| triggered the load) as its parent in the tree.
 |
 */
 
 import type { ModuleTiming } from '#types'
-import { formatDuration, getEffectiveTime, simplifyUrl } from '#profiler/reporters/format'
+import {
+  formatDuration,
+  formatVariance,
+  getEffectiveTime,
+  simplifyUrl,
+} from '#profiler/reporters/format'
 import { fileIcons, symbols } from '#registries/index'
 
 export interface ModuleNode {
@@ -17,6 +23,7 @@ export interface ModuleNode {
   displayName: string
   children: ModuleNode[]
   parent?: ModuleNode
+  parents: ModuleNode[]
   depth: number
 }
 
@@ -36,17 +43,22 @@ export function buildDependencyTree(modules: ModuleTiming[], cwd: string): Depen
       timing,
       displayName: simplifyUrl(timing.resolvedUrl, cwd),
       children: [],
+      parents: [],
       depth: 0,
     })
   }
 
   for (const node of nodeMap.values()) {
-    const parentUrl = node.timing.parentUrl
-    if (parentUrl && nodeMap.has(parentUrl)) {
-      const parent = nodeMap.get(parentUrl)!
-      parent.children.push(node)
-      node.parent = parent
+    const importerUrls = node.timing.importers?.map((i) => i.url) ?? [node.timing.parentUrl]
+
+    for (const url of new Set(importerUrls)) {
+      const importer = url ? nodeMap.get(url) : undefined
+      if (!importer || importer === node) continue
+      importer.children.push(node)
+      node.parents.push(importer)
     }
+
+    node.parent = node.timing.parentUrl ? nodeMap.get(node.timing.parentUrl) : node.parents[0]
   }
 
   // Calculate depths and identify roots
@@ -59,7 +71,7 @@ export function buildDependencyTree(modules: ModuleTiming[], cwd: string): Depen
   }
 
   for (const node of nodeMap.values()) {
-    if (!node.parent) {
+    if (node.parents.length === 0) {
       roots.push(node)
       setDepths(node, 0)
     }
@@ -89,6 +101,30 @@ export function getImportChain(node: ModuleNode): ModuleNode[] {
   return chain
 }
 
+/**
+ * Every import path from a root module to this node, shortest first.
+ * The walk is capped to keep heavily shared modules explorable.
+ */
+export function getImportChains(node: ModuleNode, limit = 10): ModuleNode[][] {
+  const chains: ModuleNode[][] = []
+  let budget = 10_000
+
+  const walk = (current: ModuleNode, path: ModuleNode[]) => {
+    if (chains.length >= limit || budget-- <= 0) return
+    if (current.parents.length === 0) {
+      chains.push([current, ...path])
+      return
+    }
+    for (const parent of current.parents) {
+      if (parent !== current && !path.includes(parent)) walk(parent, [current, ...path])
+    }
+  }
+
+  walk(node, [])
+  if (chains.length === 0) return [getImportChain(node)]
+  return chains.sort((a, b) => a.length - b.length)
+}
+
 export function getFileIcon(url: string): string {
   const ext = url.split('.').pop()?.toLowerCase() || ''
   return fileIcons[ext] || fileIcons.default
@@ -111,4 +147,4 @@ export function getSourceIcon(url: string): string {
   return isDependency(url) ? symbols.sourcePackage : symbols.sourceHome
 }
 
-export { formatDuration, getEffectiveTime }
+export { formatDuration, formatVariance, getEffectiveTime }
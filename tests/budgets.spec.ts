@@ -0,0 +1,123 @@
+import { test } from '@japa/runner'
+import { ProfileCollector } from '../src/profiler/collector.js'
+import { evaluateBudgets } from '../src/profiler/budgets.js'
+import type { ModuleTiming, ProfileResult } from '../src/types.js'
+
+function createModule(url: string, loadTime: number, parentUrl?: string): ModuleTiming {
+  return {
+    specifier: url.split('/').pop() || url,
+    resolvedUrl: url,
+    loadTime,
+    parentUrl,
+  }
+}
+
+function createResult(): ProfileResult {
+  const modules = [
+    createModule('file:///app/start/routes.ts', 5),
+    createModule('file:///app/node_modules/lodash/lodash.js', 40, 'file:///app/start/routes.ts'),
+    createModule('file:///app/node_modules/@adonisjs/core/index.js', 30),
+  ]
+  const providerPhases = new Map([['DatabaseProvider', { register: 2, boot: 60 }]])
+  return new ProfileCollector(modules, providerPhases).collectResults(800)
+}
+
+test.group('evaluateBudgets', () => {
+  test('returns no checks for an empty budget', ({ assert }) => {
+    assert.deepEqual(evaluateBudgets(createResult(), {}, '/app'), [])
+  })
+
+  test('checks total boot time and module count', ({ assert }) => {
+    const checks = evaluateBudgets(createResult(), { maxTotalTime: 500, maxModules: 10 }, '/app')
+
+    assert.deepEqual(checks, [
+      { name: 'Total boot time', actual: 800, limit: 500, unit: 'ms', passed: false },
+      { name: 'Modules loaded', actual: 3, limit: 10, unit: 'modules', passed: true },
+    ])
+  })
+
+  test('checks module subtree time by relative path', ({ assert }) => {
+    const checks = evaluateBudgets(
+      createResult(),
+      { modules: { './start/routes.ts': 40, 'lodash/lodash.js': 50 } },
+      '/app'
+    )
+
+    assert.equal(checks[0].actual, 45)
+    assert.isFalse(checks[0].passed)
+    assert.equal(checks[1].actual, 40)
+    assert.isTrue(checks[1].passed)
+  })
+
+  test('checks package totals', ({ assert }) => {
+    const [check] = evaluateBudgets(createResult(), { packages: { '@adonisjs/core': 20 } }, '/app')
+
+    assert.equal(check.name, 'Package @adonisjs/core')
+    assert.equal(check.actual, 30)
+    assert.isFalse(check.passed)
+  })
+
+  test('counts the dependencies a package pulls in against its budget', ({ assert }) => {
+    const modules = [
+      createModule('file:///app/start/routes.ts', 5),
+      createModule(
+        'file:///app/node_modules/@adonisjs/lucid/index.js',
+        10,
+        'file:///app/start/routes.ts'
+      ),
+      createModule(
+        'file:///app/node_modules/knex/index.js',
+        40,
+        'file:///app/node_modules/@adonisjs/lucid/index.js'
+      ),
+    ]
+    const result = new ProfileCollector(modules).collectResults(800)
+
+    const [check] = evaluateBudgets(result, { packages: { '@adonisjs/lucid': 20 } }, '/app')
+
+    assert.equal(check.actual, 50)
+    assert.isFalse(check.passed)
+  })
+
+  test('checks provider phases', ({ assert }) => {
+    const checks = evaluateBudgets(
+      createResult(),
+      { providers: { DatabaseProvider: { register: 5, boot: 50 } } },
+      '/app'
+    )
+
+    assert.deepEqual(
+      checks.map((c) => [c.name, c.actual, c.passed]),
+      [
+        ['Provider DatabaseProvider register()', 2, true],
+        ['Provider DatabaseProvider boot()', 60, false],
+      ]
+    )
+  })
+
+  test('fails budgets of missing modules, packages and providers', ({ assert }) => {
+    const checks = evaluateBudgets(
+      createResult(),
+      {
+        modules: { 'missing.ts': 1 },
+        packages: { lodahs: 1 },
+        providers: { MissingProvider: { boot: 1 } },
+      },
+      '/app'
+    )
+
+    assert.lengthOf(checks, 3)
+    assert.isTrue(checks.every((c) => c.missing && !c.passed))
+  })
+
+  test('does not flag phases a provider does not implement as missing', ({ assert }) => {
+    const [check] = evaluateBudgets(
+      createResult(),
+      { providers: { DatabaseProvider: { start: 1 } } },
+      '/app'
+    )
+
+    assert.isTrue(check.passed)
+    assert.isUndefined(check.missing)
+  })
+})
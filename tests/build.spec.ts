@@ -0,0 +1,69 @@
+import { test } from '@japa/runner'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { createSourceMapper, findBuildPath, toCompiledPath } from '../src/profiler/build.js'
+
+const testDir = join(process.cwd(), 'tests', '.tmp-build')
+const buildPath = join(testDir, 'build')
+
+test.group('findBuildPath', (group) => {
+  group.each.setup(() => {
+    mkdirSync(buildPath, { recursive: true })
+  })
+
+  group.each.teardown(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test('finds the build directory of the app', ({ assert }) => {
+    writeFileSync(join(buildPath, 'adonisrc.js'), 'export default {}')
+    assert.equal(findBuildPath(testDir, 'build'), buildPath)
+  })
+
+  test('uses the current directory when running from the build', ({ assert }) => {
+    writeFileSync(join(buildPath, 'adonisrc.js'), 'export default {}')
+    assert.equal(findBuildPath(buildPath, 'build'), buildPath)
+  })
+
+  test('returns undefined when the app was not built', ({ assert }) => {
+    assert.isUndefined(findBuildPath(testDir, 'build'))
+  })
+})
+
+test.group('createSourceMapper', (group) => {
+  group.each.setup(() => {
+    mkdirSync(join(testDir, 'start'), { recursive: true })
+    writeFileSync(join(testDir, 'start', 'routes.ts'), '')
+  })
+
+  group.each.teardown(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test('maps compiled app files to their source', ({ assert }) => {
+    const sourceUrl = createSourceMapper(testDir, buildPath)
+
+    assert.equal(
+      sourceUrl(pathToFileURL(join(buildPath, 'start', 'routes.js')).href),
+      pathToFileURL(join(testDir, 'start', 'routes.ts')).href
+    )
+  })
+
+  test('keeps dependencies and files without a source', ({ assert }) => {
+    const sourceUrl = createSourceMapper(testDir, buildPath)
+    const dependency = pathToFileURL(join(buildPath, 'node_modules', 'pkg', 'index.js')).href
+    const generated = pathToFileURL(join(buildPath, 'start', 'generated.js')).href
+
+    assert.equal(sourceUrl(dependency), dependency)
+    assert.equal(sourceUrl(generated), generated)
+    assert.equal(sourceUrl('node:fs'), 'node:fs')
+  })
+})
+
+test.group('toCompiledPath', () => {
+  test('derives compiled entry points', ({ assert }) => {
+    assert.equal(toCompiledPath('bin/server.ts'), 'bin/server.js')
+    assert.equal(toCompiledPath('bin/console.js'), 'bin/console.js')
+  })
+})
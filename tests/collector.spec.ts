@@ -1,5 +1,6 @@
 import { test } from '@japa/runner'
 import { ProfileCollector } from '../src/profiler/collector.js'
+import { resolveConfig } from '../src/profiler/config.js'
 import type { ModuleTiming } from '../src/types.js'
 
 function createModule(
@@ -84,6 +85,107 @@ test.group('ProfileCollector - Subtree Time Computation', () => {
   })
 })
 
+test.group('ProfileCollector - Shared Dependencies', () => {
+  /**
+   * entry imports a and b, which both import shared
+   */
+  function createDiamond(): ModuleTiming[] {
+    const importer = (url: string) => ({ url, specifier: './shared.js' })
+    return [
+      createModule('file:///app/entry.ts', 5),
+      createModule('file:///app/a.ts', 10, 'file:///app/entry.ts'),
+      createModule('file:///app/b.ts', 20, 'file:///app/entry.ts'),
+      {
+        ...createModule('file:///app/node_modules/shared/index.js', 40, 'file:///app/a.ts'),
+        importers: [importer('file:///app/a.ts'), importer('file:///app/b.ts')],
+      },
+    ]
+  }
+
+  test('counts shared dependencies in the inclusive time of every importer', ({ assert }) => {
+    const results = new ProfileCollector(createDiamond()).collectResults(100)
+    const moduleMap = new Map(results.modules.map((m) => [m.resolvedUrl, m]))
+
+    assert.equal(moduleMap.get('file:///app/a.ts')?.subtreeTime, 50)
+    assert.equal(moduleMap.get('file:///app/b.ts')?.subtreeTime, 60)
+    assert.equal(moduleMap.get('file:///app/entry.ts')?.subtreeTime, 75)
+  })
+
+  test('attributes shared dependencies to their dominator only', ({ assert }) => {
+    const results = new ProfileCollector(createDiamond()).collectResults(100)
+    const moduleMap = new Map(results.modules.map((m) => [m.resolvedUrl, m]))
+    const shared = moduleMap.get('file:///app/node_modules/shared/index.js')!
+
+    assert.equal(shared.immediateDominator, 'file:///app/entry.ts')
+    assert.equal(moduleMap.get('file:///app/a.ts')?.exclusiveTime, 10)
+    assert.equal(moduleMap.get('file:///app/b.ts')?.exclusiveTime, 20)
+    assert.equal(moduleMap.get('file:///app/entry.ts')?.exclusiveTime, 75)
+  })
+
+  test('package and category times add up to the module time', ({ assert }) => {
+    const collector = new ProfileCollector(createDiamond())
+    const summary = collector.computeSummary()
+    const packages = collector.groupModulesByPackage()
+
+    assert.equal(summary.totalModuleTime, 75)
+    assert.equal(
+      packages.reduce((sum, g) => sum + g.totalTime, 0),
+      75
+    )
+    assert.equal(packages.find((g) => g.name === 'app')!.exclusiveTime, 75)
+    assert.equal(packages.find((g) => g.name === 'shared')!.exclusiveTime, 40)
+    assert.equal(
+      summary.appFileGroups.reduce((sum, g) => sum + g.totalTime, 0),
+      75
+    )
+  })
+
+  test('handles import cycles without entry point', ({ assert }) => {
+    const modules = [
+      createModule('file:///app/a.ts', 10, 'file:///app/b.ts'),
+      createModule('file:///app/b.ts', 20, 'file:///app/a.ts'),
+    ]
+
+    const results = new ProfileCollector(modules).collectResults(100)
+
+    assert.equal(results.modules[0].subtreeTime, 30)
+    assert.equal(results.modules[0].exclusiveTime, 30)
+    assert.equal(results.modules[1].exclusiveTime, 20)
+  })
+
+  test('handles several import cycles without entry point', ({ assert }) => {
+    const modules = [
+      createModule('file:///app/a.ts', 10, 'file:///app/b.ts'),
+      createModule('file:///app/b.ts', 20, 'file:///app/a.ts'),
+      createModule('file:///app/c.ts', 5, 'file:///app/d.ts'),
+      createModule('file:///app/d.ts', 15, 'file:///app/c.ts'),
+      createModule('file:///app/e.ts', 40, 'file:///app/d.ts'),
+    ]
+
+    const results = new ProfileCollector(modules).collectResults(100)
+    const moduleMap = new Map(results.modules.map((m) => [m.resolvedUrl, m]))
+
+    assert.equal(moduleMap.get('file:///app/b.ts')?.subtreeTime, 30)
+    assert.equal(moduleMap.get('file:///app/c.ts')?.subtreeTime, 60)
+    assert.equal(moduleMap.get('file:///app/d.ts')?.subtreeTime, 60)
+    assert.equal(moduleMap.get('file:///app/e.ts')?.subtreeTime, 40)
+    assert.equal(moduleMap.get('file:///app/c.ts')?.exclusiveTime, 60)
+    assert.equal(moduleMap.get('file:///app/e.ts')?.exclusiveTime, 40)
+  })
+
+  test('computes subtree times for a long import chain', ({ assert }) => {
+    const modules = Array.from({ length: 5000 }, (_, i) =>
+      createModule(`file:///app/m${i}.ts`, 1, i > 0 ? `file:///app/m${i - 1}.ts` : undefined)
+    )
+
+    const results = new ProfileCollector(modules).collectResults(100)
+
+    assert.equal(results.modules[0].subtreeTime, 5000)
+    assert.equal(results.modules[4999].subtreeTime, 1)
+    assert.equal(results.modules[2500].exclusiveTime, 2500)
+  })
+})
+
 test.group('ProfileCollector - Package Grouping', () => {
   test('groups modules by package name', ({ assert }) => {
     const modules = [
@@ -153,6 +255,38 @@ test.group('ProfileCollector - Package Grouping', () => {
   })
 })
 
+test.group('ProfileCollector - Builtins', () => {
+  test('groups builtins together', ({ assert }) => {
+    const collector = new ProfileCollector([
+      { ...createModule('node:crypto', 2), format: 'builtin' },
+      { ...createModule('node:fs', 1), format: 'builtin' },
+    ])
+
+    const groups = collector.groupModulesByPackage()
+
+    assert.lengthOf(groups, 1)
+    assert.equal(groups[0].name, 'node:builtins')
+  })
+
+  test('keeps builtins when included', ({ assert }) => {
+    const modules = [
+      createModule('file:///app/start/routes.ts', 5),
+      {
+        ...createModule('node:crypto', 2, 'file:///app/start/routes.ts'),
+        format: 'builtin' as const,
+      },
+    ]
+
+    const excluded = new ProfileCollector(modules).filterModules(resolveConfig())
+    const included = new ProfileCollector(modules).filterModules(
+      resolveConfig({ includeBuiltins: true })
+    )
+
+    assert.lengthOf(excluded, 1)
+    assert.lengthOf(included, 2)
+  })
+})
+
 test.group('ProfileCollector - Summary', () => {
   test('computes complete summary', ({ assert }) => {
     const modules = [
@@ -177,6 +311,29 @@ test.group('ProfileCollector - Summary', () => {
     assert.equal(summary.totalProviderTime, 38)
   })
 
+  test('counts the modules loaded as CommonJS', ({ assert }) => {
+    const collector = new ProfileCollector([
+      { ...createModule('file:///app/start/routes.ts', 5), format: 'module' },
+      { ...createModule('file:///app/node_modules/pkg/index.js', 20), format: 'commonjs' },
+      { ...createModule('file:///app/node_modules/pkg/lib.js', 10), format: 'commonjs' },
+    ])
+
+    assert.equal(collector.computeSummary().commonjsModules, 2)
+  })
+
+  test('sums the transpile time of TypeScript modules', ({ assert }) => {
+    const collector = new ProfileCollector([
+      { ...createModule('file:///app/start/routes.ts', 12), transpileTime: 8 },
+      { ...createModule('file:///app/start/kernel.ts', 5), transpileTime: 3 },
+      createModule('file:///app/node_modules/pkg/index.js', 20),
+    ])
+
+    const summary = collector.computeSummary()
+
+    assert.equal(summary.totalTranspileTime, 11)
+    assert.equal(summary.totalModuleTime, 37)
+  })
+
   test('handles empty modules array', ({ assert }) => {
     const collector = new ProfileCollector()
     const summary = collector.computeSummary()
@@ -186,3 +343,21 @@ test.group('ProfileCollector - Summary', () => {
     assert.isArray(summary.appFileGroups)
   })
 })
+
+test.group('ProfileCollector - App files', () => {
+  test('groups test bootstrap files under tests', ({ assert }) => {
+    const collector = new ProfileCollector([
+      createModule('file:///app/tests/bootstrap.ts', 15),
+      createModule('file:///app/start/routes.ts', 5),
+    ])
+
+    const groups = collector.groupAppFilesByCategory()
+    const tests = groups.find((g) => g.category === 'test')!
+
+    assert.equal(tests.displayName, 'Tests')
+    assert.deepEqual(
+      tests.files.map((f) => f.resolvedUrl),
+      ['file:///app/tests/bootstrap.ts']
+    )
+  })
+})
@@ -0,0 +1,190 @@
+import { test } from '@japa/runner'
+import { join } from 'node:path'
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { ProfileCollector } from '../src/profiler/collector.js'
+import { compareProfiles, loadProfileDocument } from '../src/profiler/comparison.js'
+import type { ModuleTiming, ProfileResult } from '../src/types.js'
+
+const testDir = join(process.cwd(), 'tests', '.tmp-compare')
+
+function createModule(url: string, loadTime: number): ModuleTiming {
+  return {
+    specifier: url.split('/').pop() || url,
+    resolvedUrl: url,
+    loadTime,
+  }
+}
+
+function createResult(
+  modules: ModuleTiming[],
+  providers: Record<string, Record<string, number>> = {},
+  totalTime = 100
+): ProfileResult {
+  return new ProfileCollector(modules, new Map(Object.entries(providers))).collectResults(totalTime)
+}
+
+test.group('compareProfiles', () => {
+  test('matches modules across checkouts by simplified url', ({ assert }) => {
+    const baseline = createResult([createModule('file:///ci/a/start/routes.ts', 10)])
+    const current = createResult([createModule('file:///ci/b/start/routes.ts', 25)])
+
+    const comparison = compareProfiles(
+      { result: baseline, cwd: '/ci/a' },
+      { result: current, cwd: '/ci/b' }
+    )
+
+    assert.lengthOf(comparison.modules.added, 0)
+    assert.lengthOf(comparison.modules.removed, 0)
+    assert.deepEqual(comparison.modules.slower, [
+      { name: './start/routes.ts', baseline: 10, current: 25, delta: 15 },
+    ])
+  })
+
+  test('buckets added, removed, slower and faster modules', ({ assert }) => {
+    const baseline = createResult([
+      createModule('file:///app/node_modules/old/index.js', 5),
+      createModule('file:///app/node_modules/slow/index.js', 10),
+      createModule('file:///app/node_modules/fast/index.js', 30),
+    ])
+    const current = createResult([
+      createModule('file:///app/node_modules/new/index.js', 40),
+      createModule('file:///app/node_modules/slow/index.js', 20),
+      createModule('file:///app/node_modules/fast/index.js', 10),
+    ])
+
+    const { modules } = compareProfiles(
+      { result: baseline, cwd: '/app' },
+      { result: current, cwd: '/app' }
+    )
+
+    assert.deepEqual(
+      modules.added.map((e) => e.name),
+      ['new/index.js']
+    )
+    assert.deepEqual(
+      modules.removed.map((e) => e.name),
+      ['old/index.js']
+    )
+    assert.deepEqual(
+      modules.slower.map((e) => e.name),
+      ['slow/index.js']
+    )
+    assert.deepEqual(
+      modules.faster.map((e) => e.name),
+      ['fast/index.js']
+    )
+  })
+
+  test('ranks entries by the magnitude of the change', ({ assert }) => {
+    const baseline = createResult([
+      createModule('file:///app/node_modules/a/index.js', 10),
+      createModule('file:///app/node_modules/b/index.js', 10),
+    ])
+    const current = createResult([
+      createModule('file:///app/node_modules/a/index.js', 12),
+      createModule('file:///app/node_modules/b/index.js', 50),
+    ])
+
+    const { packages } = compareProfiles(
+      { result: baseline, cwd: '/app' },
+      { result: current, cwd: '/app' }
+    )
+
+    assert.deepEqual(
+      packages.slower.map((e) => e.name),
+      ['b', 'a']
+    )
+  })
+
+  test('ignores changes below the threshold', ({ assert }) => {
+    const baseline = createResult([createModule('file:///app/a.ts', 10)])
+    const current = createResult([createModule('file:///app/a.ts', 10.5)])
+
+    const { modules } = compareProfiles(
+      { result: baseline, cwd: '/app' },
+      { result: current, cwd: '/app' },
+      { threshold: 1 }
+    )
+
+    assert.lengthOf(modules.slower, 0)
+  })
+
+  test('lists added and removed modules regardless of the threshold', ({ assert }) => {
+    const baseline = createResult([createModule('file:///app/a.ts', 0.2)])
+    const current = createResult([createModule('file:///app/b.ts', 0.3)])
+
+    const { modules } = compareProfiles(
+      { result: baseline, cwd: '/app' },
+      { result: current, cwd: '/app' },
+      { threshold: 1 }
+    )
+
+    assert.deepEqual(
+      modules.added.map((e) => e.name),
+      ['./b.ts']
+    )
+    assert.deepEqual(
+      modules.removed.map((e) => e.name),
+      ['./a.ts']
+    )
+  })
+
+  test('diffs every summary statistic', ({ assert }) => {
+    const baseline = createResult([createModule('file:///app/a.ts', 10)])
+    const current = createResult([
+      createModule('file:///app/a.ts', 10),
+      { ...createModule('file:///app/b.cjs', 4), format: 'commonjs', transpileTime: 1 },
+    ])
+
+    const { summary } = compareProfiles(
+      { result: baseline, cwd: '/app' },
+      { result: current, cwd: '/app' }
+    )
+
+    const keys = Object.keys(current.summary).filter((key) => key !== 'appFileGroups')
+    assert.sameMembers(Object.keys(summary), keys)
+    for (const key of keys) {
+      assert.properties(summary[key as keyof typeof summary], ['baseline', 'current', 'delta'])
+    }
+    assert.equal(summary.commonjsModules.delta, 1)
+    assert.equal(summary.totalTranspileTime.delta, 1)
+  })
+
+  test('diffs providers and summary counts', ({ assert }) => {
+    const baseline = createResult([createModule('file:///app/a.ts', 10)], {
+      AppProvider: { register: 1, boot: 4 },
+    })
+    const current = createResult(
+      [createModule('file:///app/a.ts', 10), createModule('file:///app/b.ts', 10)],
+      { AppProvider: { register: 1, boot: 2 }, DbProvider: { boot: 8 } },
+      150
+    )
+
+    const comparison = compareProfiles(
+      { result: baseline, cwd: '/app' },
+      { result: current, cwd: '/app' }
+    )
+
+    assert.deepEqual(comparison.totalTime, { baseline: 100, current: 150, delta: 50 })
+    assert.equal(comparison.summary.totalModules.delta, 1)
+    assert.deepEqual(
+      comparison.providers.added.map((e) => e.name),
+      ['DbProvider']
+    )
+    assert.equal(comparison.providers.faster[0].delta, -2)
+  })
+})
+
+test.group('loadProfileDocument', (group) => {
+  group.each.setup(() => {
+    mkdirSync(testDir, { recursive: true })
+    return () => rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test('rejects documents with an unknown format version', async ({ assert }) => {
+    const path = join(testDir, 'profile.json')
+    writeFileSync(path, JSON.stringify({ formatVersion: 999 }))
+
+    await assert.rejects(() => loadProfileDocument(path), /Unsupported profile format version 999/)
+  })
+})
@@ -0,0 +1,94 @@
+import { test } from '@japa/runner'
+import { join } from 'node:path'
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { ProfileCollector } from '../src/profiler/collector.js'
+import {
+  compareDefaults,
+  defaultConfig,
+  findConfigFile,
+  loadConfig,
+  resolveConfig,
+} from '../src/profiler/config.js'
+import type { ModuleTiming } from '../src/types.js'
+
+const testDir = join(process.cwd(), 'tests', '.tmp-config')
+
+function createModule(url: string, loadTime: number, parentUrl?: string): ModuleTiming {
+  return {
+    specifier: url.split('/').pop() || url,
+    resolvedUrl: url,
+    loadTime,
+    parentUrl,
+  }
+}
+
+test.group('resolveConfig', () => {
+  test('falls back to the defaults', ({ assert }) => {
+    assert.deepEqual(resolveConfig(), defaultConfig)
+  })
+
+  test('lets later layers override earlier ones', ({ assert }) => {
+    const config = resolveConfig({ topModules: 5, runs: 3 }, { topModules: 10 })
+
+    assert.equal(config.topModules, 10)
+    assert.equal(config.runs, 3)
+    assert.equal(config.entry, 'bin/server.ts')
+  })
+
+  test('skips undefined values', ({ assert }) => {
+    const config = resolveConfig({ threshold: 5 }, { threshold: undefined })
+    assert.equal(config.threshold, 5)
+  })
+
+  test('lets the config file override the compare defaults', ({ assert }) => {
+    assert.equal(resolveConfig(compareDefaults).topModules, 10)
+    assert.equal(resolveConfig(compareDefaults, { topModules: 5 }).topModules, 5)
+    assert.equal(
+      resolveConfig(compareDefaults, { topModules: 5 }, { topModules: undefined }).topModules,
+      5
+    )
+  })
+})
+
+test.group('loadConfig', (group) => {
+  group.each.setup(() => {
+    mkdirSync(testDir, { recursive: true })
+  })
+
+  group.each.teardown(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test('returns an empty config when no file exists', async ({ assert }) => {
+    assert.isUndefined(findConfigFile(testDir))
+    assert.deepEqual(await loadConfig(testDir), {})
+  })
+
+  test('imports the default export of the config file', async ({ assert }) => {
+    writeFileSync(
+      join(testDir, 'docteur.config.mjs'),
+      `export default { entry: 'bin/console.ts', ignore: ['/generated/'] }`
+    )
+
+    assert.equal(findConfigFile(testDir), join(testDir, 'docteur.config.mjs'))
+    assert.deepEqual(await loadConfig(testDir), {
+      entry: 'bin/console.ts',
+      ignore: ['/generated/'],
+    })
+  })
+})
+
+test.group('ignore patterns', () => {
+  test('excludes matching modules from the analysis', ({ assert }) => {
+    const collector = new ProfileCollector([
+      createModule('file:///app/start/routes.ts', 5),
+      createModule('file:///app/generated/schema.ts', 50),
+    ])
+
+    const filtered = collector.filterModules(resolveConfig({ ignore: ['/generated/'] }))
+    assert.deepEqual(
+      filtered.map((m) => m.resolvedUrl),
+      ['file:///app/start/routes.ts']
+    )
+  })
+})
@@ -0,0 +1,81 @@
+import { test } from '@japa/runner'
+import { join } from 'node:path'
+import { readFileSync, rmSync } from 'node:fs'
+import { ProfileCollector } from '../src/profiler/collector.js'
+import { resolveConfig } from '../src/profiler/config.js'
+import { CsvReporter } from '../src/profiler/reporters/csv_reporter.js'
+import type { ReportContext } from '../src/profiler/reporters/base_reporter.js'
+import type { ModuleTiming } from '../src/types.js'
+
+const testDir = join(process.cwd(), 'tests', '.tmp-csv')
+
+function createModule(url: string, loadTime: number, parentUrl?: string): ModuleTiming {
+  return {
+    specifier: url.split('/').pop() || url,
+    resolvedUrl: url,
+    loadTime,
+    parentUrl,
+  }
+}
+
+function createContext(): ReportContext {
+  const modules = [
+    createModule('file:///app/start/routes.ts', 5.12345),
+    createModule('file:///app/app/controllers/a,"b".ts', 3, 'file:///app/start/routes.ts'),
+    createModule('file:///app/node_modules/lodash/get.js', 10, 'file:///app/start/routes.ts'),
+  ]
+  const providerPhases = new Map([['AppProvider', { register: 2, boot: 3 }]])
+
+  return {
+    result: new ProfileCollector(modules, providerPhases).collectResults(120),
+    cwd: '/app',
+    entryPoint: 'bin/server.ts',
+    config: resolveConfig(),
+  }
+}
+
+test.group('CsvReporter', (group) => {
+  group.each.teardown(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test('writes one row per module with full paths', ({ assert }) => {
+    const lines = new CsvReporter('unused').toFiles(createContext())['modules.csv'].split('\n')
+
+    assert.equal(
+      lines[0],
+      'specifier,resolvedUrl,package,category,format,selfTime,subtreeTime,exclusiveTime,evaluationTime,transpileTime,depth,importer'
+    )
+    assert.equal(
+      lines[1],
+      'routes.ts,file:///app/start/routes.ts,app,start,,5.123,18.123,18.123,,,0,'
+    )
+    assert.include(
+      lines,
+      'get.js,file:///app/node_modules/lodash/get.js,lodash,,,10,10,10,,,1,file:///app/start/routes.ts'
+    )
+  })
+
+  test('quotes fields holding delimiters or quotes', ({ assert }) => {
+    const csv = new CsvReporter('unused').toFiles(createContext())['modules.csv']
+
+    assert.include(csv, '"a,""b"".ts","file:///app/app/controllers/a,""b"".ts",app,controller')
+  })
+
+  test('writes every provider phase', ({ assert }) => {
+    const csv = new CsvReporter('unused').toFiles(createContext())['providers.csv']
+
+    assert.equal(
+      csv,
+      'provider,registerTime,bootTime,startTime,readyTime,shutdownTime,totalTime,failedPhases\nAppProvider,2,3,0,0,0,5,\n'
+    )
+  })
+
+  test('writes TSV files to the output directory', async ({ assert }) => {
+    await new CsvReporter(join(testDir, 'nested'), '\t').render(createContext())
+
+    const providers = readFileSync(join(testDir, 'nested', 'providers.tsv'), 'utf-8')
+    assert.equal(providers.split('\n')[1], 'AppProvider\t2\t3\t0\t0\t0\t5\t')
+    assert.include(readFileSync(join(testDir, 'nested', 'modules.tsv'), 'utf-8'), 'a,"b".ts\t')
+  })
+})
@@ -0,0 +1,85 @@
+import { test } from '@japa/runner'
+import { join } from 'node:path'
+import { readFileSync, rmSync } from 'node:fs'
+import { ProfileCollector } from '../src/profiler/collector.js'
+import { resolveConfig } from '../src/profiler/config.js'
+import { FlameGraphReporter } from '../src/profiler/reporters/flamegraph_reporter.js'
+import type { ReportContext } from '../src/profiler/reporters/base_reporter.js'
+import type { ModuleTiming } from '../src/types.js'
+
+const testDir = join(process.cwd(), 'tests', '.tmp-flamegraph')
+
+function createModule(url: string, loadTime: number, parentUrl?: string): ModuleTiming {
+  return {
+    specifier: url.split('/').pop() || url,
+    resolvedUrl: url,
+    loadTime,
+    parentUrl,
+  }
+}
+
+function createContext(): ReportContext {
+  const modules = [
+    createModule('file:///app/start/routes.ts', 10),
+    createModule('file:///app/app/<controller>.ts', 30, 'file:///app/start/routes.ts'),
+    createModule('file:///app/node_modules/lodash/get.js', 60, 'file:///app/start/routes.ts'),
+  ]
+
+  return {
+    result: new ProfileCollector(modules).collectResults(200),
+    cwd: '/app',
+    entryPoint: 'bin/server.ts',
+    config: resolveConfig(),
+  }
+}
+
+function frames(svg: string) {
+  return [
+    ...svg.matchAll(/<title>([^\n<]+)[\s\S]*?<rect x="([\d.]+)" y="(\d+)" width="([\d.]+)"/g),
+  ].map(([, url, x, y, width]) => ({ url, x: Number(x), y: Number(y), width: Number(width) }))
+}
+
+test.group('FlameGraphReporter', (group) => {
+  group.each.teardown(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test('sizes frames by subtree time', ({ assert }) => {
+    const svg = new FlameGraphReporter('unused.svg').toSvg(createContext())
+    const [root, lodash, controller] = frames(svg)
+
+    assert.equal(root.url, 'file:///app/start/routes.ts')
+    assert.equal(root.width, 1180)
+    assert.equal(lodash.width, 708)
+    assert.equal(controller.width, 354)
+  })
+
+  test('places children below their importer, slowest first', ({ assert }) => {
+    const svg = new FlameGraphReporter('unused.svg').toSvg(createContext())
+    const [root, lodash, controller] = frames(svg)
+
+    assert.isAbove(lodash.y, root.y)
+    assert.equal(lodash.y, controller.y)
+    assert.equal(lodash.x, root.x)
+    assert.equal(controller.x, lodash.x + lodash.width)
+  })
+
+  test('shows the package, self time and path in tooltips', ({ assert }) => {
+    const svg = new FlameGraphReporter('unused.svg').toSvg(createContext())
+
+    assert.include(
+      svg,
+      '<title>file:///app/node_modules/lodash/get.js\nPackage: lodash\nSubtree: 60.00ms\nSelf: 60.00ms</title>'
+    )
+    assert.include(svg, 'file:///app/app/&lt;controller&gt;.ts')
+  })
+
+  test('writes a standalone SVG', async ({ assert }) => {
+    const outputPath = join(testDir, 'nested', 'imports.svg')
+    await new FlameGraphReporter(outputPath).render(createContext())
+
+    const written = readFileSync(outputPath, 'utf-8')
+    assert.match(written, /^<\?xml/)
+    assert.include(written, '<svg xmlns="http://www.w3.org/2000/svg"')
+  })
+})
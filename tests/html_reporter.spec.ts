@@ -0,0 +1,79 @@
+import { test } from '@japa/runner'
+import { join } from 'node:path'
+import { readFileSync, rmSync } from 'node:fs'
+import { ProfileCollector } from '../src/profiler/collector.js'
+import { resolveConfig } from '../src/profiler/config.js'
+import { HtmlReporter } from '../src/profiler/reporters/html_reporter.js'
+import type { ReportContext } from '../src/profiler/reporters/base_reporter.js'
+import type { ModuleTiming } from '../src/types.js'
+
+const testDir = join(process.cwd(), 'tests', '.tmp-html')
+
+function createModule(url: string, loadTime: number, parentUrl?: string): ModuleTiming {
+  return {
+    specifier: url.split('/').pop() || url,
+    resolvedUrl: url,
+    loadTime,
+    parentUrl,
+  }
+}
+
+function createContext(): ReportContext {
+  const modules = [
+    createModule('file:///app/start/routes.ts', 5),
+    createModule('file:///app/app/<script>.ts', 3, 'file:///app/start/routes.ts'),
+    createModule('file:///app/node_modules/lodash/get.js', 10, 'file:///app/start/routes.ts'),
+  ]
+  const providerPhases = new Map([['AppProvider', { register: 2, boot: 3 }]])
+
+  return {
+    result: new ProfileCollector(modules, providerPhases).collectResults(2500),
+    cwd: '/app',
+    entryPoint: 'bin/server.ts',
+    config: resolveConfig(),
+  }
+}
+
+test.group('HtmlReporter', (group) => {
+  group.each.teardown(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test('renders the summary and recommendations', ({ assert }) => {
+    const html = new HtmlReporter('unused.html').toHtml(createContext())
+
+    assert.include(html, '<strong>2.50s</strong>')
+    assert.include(html, 'Total boot time is over 2s')
+  })
+
+  test('renders sortable module and package tables', ({ assert }) => {
+    const html = new HtmlReporter('unused.html').toHtml(createContext())
+
+    assert.include(html, '<table id="modules" class="sortable">')
+    assert.include(html, '<table id="packages" class="sortable">')
+    assert.include(html, '<td>lodash</td>')
+    assert.include(html, '<td data-value="18">18.00ms</td>')
+  })
+
+  test('nests the import tree under each importer', ({ assert }) => {
+    const html = new HtmlReporter('unused.html').toHtml(createContext())
+
+    assert.match(html, /<summary>.*\.\/start\/routes\.ts<\/summary><ul><li class="leaf">.*get\.js/)
+  })
+
+  test('escapes module names', ({ assert }) => {
+    const html = new HtmlReporter('unused.html').toHtml(createContext())
+
+    assert.include(html, './app/&lt;script&gt;.ts')
+    assert.notInclude(html, '<script>.ts')
+  })
+
+  test('writes a self-contained document', async ({ assert }) => {
+    const outputPath = join(testDir, 'nested', 'boot.html')
+    await new HtmlReporter(outputPath).render(createContext())
+
+    const written = readFileSync(outputPath, 'utf-8')
+    assert.match(written, /^<!DOCTYPE html>/)
+    assert.notMatch(written, /<(script|link)[^>]+(src|href)=/)
+  })
+})
@@ -0,0 +1,74 @@
+import { test } from '@japa/runner'
+import { join } from 'node:path'
+import { readFileSync, rmSync } from 'node:fs'
+import { ProfileCollector } from '../src/profiler/collector.js'
+import { resolveConfig } from '../src/profiler/config.js'
+import { JsonReporter, PROFILE_FORMAT_VERSION } from '../src/profiler/reporters/json_reporter.js'
+import type { ReportContext } from '../src/profiler/reporters/base_reporter.js'
+import type { ModuleTiming } from '../src/types.js'
+
+const testDir = join(process.cwd(), 'tests', '.tmp-json')
+
+function createModule(url: string, loadTime: number, parentUrl?: string): ModuleTiming {
+  return {
+    specifier: url.split('/').pop() || url,
+    resolvedUrl: url,
+    loadTime,
+    parentUrl,
+  }
+}
+
+function createContext(): ReportContext {
+  const modules = [
+    createModule('file:///app/start/routes.ts', 5),
+    createModule('file:///app/node_modules/lodash/get.js', 10, 'file:///app/start/routes.ts'),
+  ]
+  const providerPhases = new Map([['AppProvider', { register: 2, boot: 3 }]])
+
+  return {
+    result: new ProfileCollector(modules, providerPhases).collectResults(120),
+    cwd: '/app',
+    entryPoint: 'bin/server.ts',
+    config: resolveConfig(),
+  }
+}
+
+test.group('JsonReporter', (group) => {
+  group.each.teardown(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test('builds a versioned document with metadata', ({ assert }) => {
+    const document = new JsonReporter('unused.json').toDocument(createContext())
+
+    assert.equal(document.formatVersion, PROFILE_FORMAT_VERSION)
+    assert.equal(document.nodeVersion, process.version)
+    assert.equal(document.entryPoint, 'bin/server.ts')
+    assert.equal(document.cwd, '/app')
+    assert.match(document.docteurVersion, /^\d+\.\d+\.\d+/)
+    assert.isFalse(Number.isNaN(Date.parse(document.createdAt)))
+  })
+
+  test('includes the full result and package groups', ({ assert }) => {
+    const document = new JsonReporter('unused.json').toDocument(createContext())
+
+    assert.equal(document.result.totalTime, 120)
+    assert.lengthOf(document.result.modules, 2)
+    assert.equal(document.result.providers[0].bootTime, 3)
+    assert.deepInclude(document.packages, {
+      name: 'lodash',
+      totalTime: 10,
+      exclusiveTime: 10,
+      modules: ['file:///app/node_modules/lodash/get.js'],
+    })
+  })
+
+  test('writes the document to the output path', async ({ assert }) => {
+    const outputPath = join(testDir, 'nested', 'profile.json')
+    await new JsonReporter(outputPath).render(createContext())
+
+    const written = JSON.parse(readFileSync(outputPath, 'utf-8'))
+    assert.equal(written.formatVersion, PROFILE_FORMAT_VERSION)
+    assert.equal(written.result.summary.totalModules, 2)
+  })
+})
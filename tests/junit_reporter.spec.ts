@@ -0,0 +1,79 @@
+import { test } from '@japa/runner'
+import { join } from 'node:path'
+import { readFileSync, rmSync } from 'node:fs'
+import { evaluateBudgets } from '../src/profiler/budgets.js'
+import { ProfileCollector } from '../src/profiler/collector.js'
+import { resolveConfig } from '../src/profiler/config.js'
+import { JunitReporter } from '../src/profiler/reporters/junit_reporter.js'
+import type { ReportContext } from '../src/profiler/reporters/base_reporter.js'
+
+const testDir = join(process.cwd(), 'tests', '.tmp-junit')
+
+function createContext(): ReportContext {
+  const modules = [{ specifier: 'routes.ts', resolvedUrl: 'file:///app/routes.ts', loadTime: 5 }]
+  const providerPhases = new Map([['App<Provider>', { boot: 30 }]])
+  const result = new ProfileCollector(modules, providerPhases).collectResults(1500)
+
+  return {
+    result,
+    cwd: '/app',
+    entryPoint: 'bin/server.ts',
+    config: resolveConfig(),
+    budgets: evaluateBudgets(
+      result,
+      { maxTotalTime: 1000, maxModules: 10, providers: { 'App<Provider>': { boot: 50 } } },
+      '/app'
+    ),
+  }
+}
+
+test.group('JunitReporter', (group) => {
+  group.each.teardown(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test('counts budgets as test cases', ({ assert }) => {
+    const xml = new JunitReporter('unused.xml').toXml(createContext())
+
+    assert.include(
+      xml,
+      '<testsuites name="docteur" tests="3" failures="1" errors="0" time="1.500">'
+    )
+  })
+
+  test('fails exceeded budgets with the actual and allowed values', ({ assert }) => {
+    const xml = new JunitReporter('unused.xml').toXml(createContext())
+
+    assert.include(
+      xml,
+      '<testcase classname="docteur.budgets" name="Total boot time" time="1.500">\n      <failure message="Total boot time: 1.50s exceeds the budget of 1.00s" type="BudgetExceeded">Actual: 1.50s\nAllowed: 1.00s</failure>'
+    )
+    assert.include(xml, '<testcase classname="docteur.budgets" name="Modules loaded" time="0"/>')
+  })
+
+  test('fails budgets of entries missing from the profile', ({ assert }) => {
+    const context = createContext()
+    const budgets = evaluateBudgets(context.result, { packages: { lodahs: 10 } }, '/app')
+    const xml = new JunitReporter('unused.xml').toXml({ ...context, budgets })
+
+    assert.include(
+      xml,
+      '<failure message="Package lodahs: not found in the profile" type="BudgetNotFound">'
+    )
+  })
+
+  test('escapes budget names', ({ assert }) => {
+    const xml = new JunitReporter('unused.xml').toXml(createContext())
+
+    assert.include(xml, 'name="Provider App&lt;Provider&gt; boot()" time="0.030"/>')
+  })
+
+  test('writes an empty suite without budgets', async ({ assert }) => {
+    const outputPath = join(testDir, 'nested', 'junit.xml')
+    await new JunitReporter(outputPath).render({ ...createContext(), budgets: undefined })
+
+    const written = readFileSync(outputPath, 'utf-8')
+    assert.match(written, /^<\?xml/)
+    assert.include(written, 'tests="0" failures="0"')
+  })
+})
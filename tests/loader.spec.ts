@@ -0,0 +1,78 @@
+import { test } from '@japa/runner'
+import { execFile } from 'node:child_process'
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { promisify } from 'node:util'
+import { applyResults, buildResults, createProfilerState } from '../src/profiler/results.js'
+import type { ResultsData } from '../src/profiler/results.js'
+
+const testDir = join(process.cwd(), 'tests', '.tmp-loader')
+
+/**
+ * App whose provider throws in `boot()` and never finishes `start()`,
+ * reported through the AdonisJS tracing channels
+ */
+const APP = `
+import { tracingChannels } from '@adonisjs/application'
+
+class FailingProvider {}
+class HangingProvider {}
+
+try {
+  tracingChannels.providerBoot.traceSync(() => {
+    throw new Error('Missing env APP_KEY')
+  }, { provider: new FailingProvider() })
+} catch {}
+
+tracingChannels.providerStart.tracePromise(() => new Promise(() => {}), {
+  provider: new HangingProvider(),
+})
+
+setTimeout(() => process.exit(0), 10)
+`
+
+/**
+ * Runs the app with the profiler loader, and reads the results it
+ * writes on exit
+ */
+async function runWithLoader(): Promise<ResultsData> {
+  const resultsFile = join(testDir, 'results.json')
+  writeFileSync(join(testDir, 'app.mjs'), APP)
+
+  await promisify(execFile)(
+    process.execPath,
+    ['--import=./tsnode.esm.js', '--import=./src/profiler/loader.ts', join(testDir, 'app.mjs')],
+    { env: { ...process.env, DOCTEUR_RESULTS_FILE: resultsFile } }
+  )
+
+  return JSON.parse(readFileSync(resultsFile, 'utf-8')) as ResultsData
+}
+
+test.group('loader | provider phases', (group) => {
+  group.each.setup(() => {
+    mkdirSync(testDir, { recursive: true })
+  })
+
+  group.each.teardown(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test('reports failed and unfinished provider phases', async ({ assert }) => {
+    const state = createProfilerState()
+    applyResults(state, await runWithLoader())
+    state.exitCode = 0
+
+    const { providers } = buildResults(state, process.cwd(), { mode: 'ace' })
+    const failing = providers.find((p) => p.name === 'FailingProvider')!
+    const hanging = providers.find((p) => p.name === 'HangingProvider')!
+
+    assert.lengthOf(failing.errors!, 1)
+    assert.deepInclude(failing.errors![0], { phase: 'boot', message: 'Missing env APP_KEY' })
+    assert.include(failing.errors![0].stack, 'Missing env APP_KEY')
+    assert.isUndefined(failing.incompletePhases)
+
+    assert.deepEqual(hanging.incompletePhases, ['start'])
+    assert.isUndefined(hanging.errors)
+    assert.isAbove(hanging.startTime, 0)
+  }).timeout(30_000)
+})
@@ -0,0 +1,108 @@
+import { test } from '@japa/runner'
+import { join } from 'node:path'
+import { readFileSync, rmSync } from 'node:fs'
+import { ProfileCollector } from '../src/profiler/collector.js'
+import { compareProfiles } from '../src/profiler/comparison.js'
+import { resolveConfig } from '../src/profiler/config.js'
+import { MarkdownReporter } from '../src/profiler/reporters/markdown_reporter.js'
+import type { ReportContext } from '../src/profiler/reporters/base_reporter.js'
+import type { ModuleTiming, ProfileResult } from '../src/types.js'
+
+const testDir = join(process.cwd(), 'tests', '.tmp-markdown')
+
+function createModule(url: string, loadTime: number, parentUrl?: string): ModuleTiming {
+  return {
+    specifier: url.split('/').pop() || url,
+    resolvedUrl: url,
+    loadTime,
+    parentUrl,
+  }
+}
+
+function createResult(lodashTime: number, totalTime: number): ProfileResult {
+  const modules = [
+    createModule('file:///app/start/routes.ts', 5),
+    createModule(
+      'file:///app/node_modules/lodash/get.js',
+      lodashTime,
+      'file:///app/start/routes.ts'
+    ),
+  ]
+  const providerPhases = new Map([['AppProvider', { register: 2, boot: 3 }]])
+  return new ProfileCollector(modules, providerPhases).collectResults(totalTime)
+}
+
+function createContext(result = createResult(10, 120)): ReportContext {
+  return { result, cwd: '/app', entryPoint: 'bin/server.ts', config: resolveConfig() }
+}
+
+test.group('MarkdownReporter', (group) => {
+  group.each.teardown(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test('summarizes the boot in a markdown table', ({ assert }) => {
+    const markdown = new MarkdownReporter('unused.md').toMarkdown(createContext())
+
+    assert.include(markdown, '| Metric | Value |\n| --- | --- |')
+    assert.include(markdown, '| Total boot time | **120.00ms** |')
+    assert.notInclude(markdown, '\u001b[')
+  })
+
+  test('lists the slowest modules, packages and providers', ({ assert }) => {
+    const markdown = new MarkdownReporter('unused.md').toMarkdown(createContext())
+
+    assert.include(markdown, '| 1 | `./start/routes.ts` | 15.00ms | 15.00ms | 5.00ms |')
+    assert.include(markdown, '| 1 | `lodash` | 1 | 10.00ms | 10.00ms |')
+    assert.include(markdown, '| AppProvider | 2.00ms | 3.00ms | 0.00ms | 0.00ms | 5.00ms |')
+    assert.include(markdown, 'No major issues detected!')
+  })
+
+  test('renders the changes against a baseline', ({ assert }) => {
+    const baseline = createResult(10, 120)
+    const context = createContext(createResult(40, 150))
+    context.comparison = compareProfiles(
+      { result: baseline, cwd: '/app' },
+      { result: context.result, cwd: '/app' }
+    )
+
+    const markdown = new MarkdownReporter('unused.md').toMarkdown(context)
+
+    assert.include(markdown, '### Compared to baseline')
+    assert.include(markdown, 'Boot time regressed by **30.00ms** (25.0%)')
+    assert.include(markdown, '| Total boot time | 120.00ms | 150.00ms | +30.00ms |')
+    assert.include(markdown, '| `lodash/get.js` | slower | 10.00ms | 40.00ms | +30.00ms |')
+  })
+
+  test('lists added modules even with more slower modules than the limit', ({ assert }) => {
+    const slow = (time: number) =>
+      Array.from({ length: 5 }, (_, i) => createModule(`file:///app/start/${i}.ts`, time))
+    const baseline = new ProfileCollector(slow(1)).collectResults(100)
+    const current = new ProfileCollector([
+      ...slow(10),
+      createModule('file:///app/node_modules/moment/moment.js', 2),
+    ]).collectResults(150)
+
+    const context = createContext(current)
+    context.config = resolveConfig({ topModules: 3 })
+    context.comparison = compareProfiles(
+      { result: baseline, cwd: '/app' },
+      { result: current, cwd: '/app' }
+    )
+
+    const markdown = new MarkdownReporter('unused.md').toMarkdown(context)
+    const modules = markdown.slice(markdown.indexOf('<summary>Modules changes (6)</summary>'))
+    const section = modules.slice(0, modules.indexOf('</details>'))
+
+    assert.include(section, '| `moment/moment.js` | added | 0.00ms | 2.00ms | +2.00ms |')
+    assert.lengthOf(section.match(/\| slower \|/g)!, 3)
+    assert.include(section, '… and 2 more')
+  })
+
+  test('writes the document to the output path', async ({ assert }) => {
+    const outputPath = join(testDir, 'nested', 'docteur.md')
+    await new MarkdownReporter(outputPath).render(createContext())
+
+    assert.match(readFileSync(outputPath, 'utf-8'), /^## .* Docteur - Cold Start Analysis/)
+  })
+})
@@ -29,6 +29,11 @@ test.group('isAdonisProject', (group) => {
     assert.isTrue(isAdonisProject(testDir))
   })
 
+  test('returns true for a build deployed on its own', ({ assert }) => {
+    writeFileSync(join(testDir, 'adonisrc.js'), 'export default {}')
+    assert.isTrue(isAdonisProject(testDir))
+  })
+
   test('returns false when neither config exists', ({ assert }) => {
     assert.isFalse(isAdonisProject(testDir))
   })
@@ -55,6 +60,12 @@ test.group('findEntryPoint', (group) => {
     assert.equal(entry, join(testDir, 'bin/server.ts'))
   })
 
+  test('finds default bin/console.ts entry point in ace mode', ({ assert }) => {
+    writeFileSync(join(testDir, 'bin', 'console.ts'), '')
+    const entry = findEntryPoint(testDir, undefined, 'ace')
+    assert.equal(entry, join(testDir, 'bin/console.ts'))
+  })
+
   test('finds custom entry point', ({ assert }) => {
     mkdirSync(join(testDir, 'custom'), { recursive: true })
     writeFileSync(join(testDir, 'custom', 'start.ts'), '')
@@ -0,0 +1,70 @@
+import { test } from '@japa/runner'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { ReadinessWatcher, scanOutput } from '../src/profiler/readiness.js'
+
+const SIGNAL = 'started HTTP server'
+
+test.group('scanOutput', () => {
+  test('finds the signal split across two chunks', ({ assert }) => {
+    const first = scanOutput('', '[info] started HT', SIGNAL)
+    const second = scanOutput(first.pending, 'TP server on :3333', SIGNAL)
+
+    assert.isFalse(first.seen)
+    assert.isTrue(second.seen)
+  })
+
+  test('keeps a bounded tail of output without line breaks', ({ assert }) => {
+    let pending = ''
+    for (let i = 0; i < 100; i++) {
+      pending = scanOutput(pending, 'x'.repeat(1000), SIGNAL).pending
+    }
+
+    assert.lengthOf(pending, SIGNAL.length - 1)
+  })
+})
+
+test.group('ReadinessWatcher', () => {
+  test('is ready on the IPC ready message, without lag', ({ assert }) => {
+    const lags: number[] = []
+    const watcher = new ReadinessWatcher(SIGNAL, (lag) => lags.push(lag))
+
+    assert.isFalse(watcher.message({ type: 'results' }))
+    assert.isTrue(watcher.message('ready'))
+    assert.isTrue(watcher.message('ready'))
+    assert.deepEqual(lags, [0])
+  })
+
+  test('waits the fallback delay after the signal in stdout', async ({ assert }) => {
+    const lags: number[] = []
+    const watcher = new ReadinessWatcher(SIGNAL, (lag) => lags.push(lag), 20)
+
+    watcher.output(`${SIGNAL} on :3333\n`)
+    assert.lengthOf(lags, 0)
+
+    await sleep(60)
+    assert.lengthOf(lags, 1)
+    assert.isAtLeast(lags[0], 15)
+  })
+
+  test('prefers the IPC ready message arriving during the fallback delay', async ({ assert }) => {
+    const lags: number[] = []
+    const watcher = new ReadinessWatcher(SIGNAL, (lag) => lags.push(lag), 20)
+
+    watcher.fallback()
+    watcher.message('ready')
+
+    await sleep(60)
+    assert.deepEqual(lags, [0])
+  })
+
+  test('ignores readiness once stopped', async ({ assert }) => {
+    const lags: number[] = []
+    const watcher = new ReadinessWatcher(SIGNAL, (lag) => lags.push(lag), 20)
+
+    watcher.output(SIGNAL)
+    watcher.stop()
+
+    await sleep(60)
+    assert.lengthOf(lags, 0)
+  })
+})
@@ -0,0 +1,108 @@
+import { test } from '@japa/runner'
+import { applyResults, buildResults, createProfilerState } from '../src/profiler/results.js'
+import type { ResultsData } from '../src/profiler/results.js'
+
+/**
+ * Results of an app stuck in `start()` of a provider, while a module
+ * is still loading and another one still evaluating
+ */
+function createData(): ResultsData {
+  return {
+    loadTimes: {
+      'file:///app/bin/server.ts': 40,
+      'file:///app/start/routes.ts': 25,
+    },
+    importers: {
+      'file:///app/start/routes.ts': [{ url: 'file:///app/bin/server.ts', specifier: '#start' }],
+    },
+    providerPhases: { AppProvider: { register: 2, boot: 3 } },
+    bootEnd: 0,
+    readyTime: 5000,
+    pendingModules: { 'file:///app/start/kernel.ts': 1200 },
+    pendingEvaluations: { 'file:///app/start/routes.ts': 900 },
+    pendingPhases: { AppProvider: { start: 4000 } },
+  }
+}
+
+test.group('buildResults | partial', () => {
+  test('marks modules still loading or evaluating as incomplete', ({ assert }) => {
+    const state = createProfilerState()
+    applyResults(state, createData())
+    state.timedOut = true
+
+    const result = buildResults(state, '/app', { mode: 'web' })
+    const incomplete = result.modules.filter((m) => m.incomplete).map((m) => m.specifier)
+
+    assert.sameMembers(incomplete, ['./start/routes.ts', './start/kernel.ts'])
+    assert.equal(result.modules.find((m) => m.specifier === './start/kernel.ts')?.loadTime, 1200)
+    assert.isUndefined(result.modules.find((m) => m.specifier === './bin/server.ts')?.incomplete)
+  })
+
+  test('marks provider phases still running as incomplete', ({ assert }) => {
+    const state = createProfilerState()
+    applyResults(state, createData())
+    state.timedOut = true
+
+    const [provider] = buildResults(state, '/app', { mode: 'web' }).providers
+
+    assert.equal(provider.startTime, 4000)
+    assert.deepEqual(provider.incompletePhases, ['start'])
+  })
+
+  test('reports a timeout as partial, without exit code', ({ assert }) => {
+    const state = createProfilerState()
+    applyResults(state, createData())
+    state.timedOut = true
+
+    const result = buildResults(state, '/app', { mode: 'web' })
+
+    assert.isTrue(result.partial)
+    assert.isUndefined(result.exitCode)
+    assert.equal(result.totalTime, 5000)
+  })
+
+  test('reports a server exiting before being ready with its exit code', ({ assert }) => {
+    const state = createProfilerState()
+    applyResults(state, { ...createData(), readyTime: undefined, exitTime: 3000 })
+    state.exitCode = 1
+
+    const result = buildResults(state, '/app', { mode: 'web' })
+
+    assert.isTrue(result.partial)
+    assert.equal(result.exitCode, 1)
+    assert.equal(result.totalTime, 3000)
+  })
+
+  test('does not treat an ace command exiting as partial', ({ assert }) => {
+    const state = createProfilerState()
+    applyResults(state, {
+      ...createData(),
+      pendingModules: {},
+      pendingEvaluations: {},
+      pendingPhases: {},
+      bootEnd: 800,
+      exitTime: 1000,
+    })
+    state.exitCode = 2
+
+    const result = buildResults(state, '/app', { mode: 'ace', args: ['migration:run'] })
+
+    assert.isUndefined(result.partial)
+    assert.equal(result.totalTime, 800)
+    assert.deepInclude(result.command, { name: 'migration:run', executionTime: 200, exitCode: 2 })
+  })
+})
+
+test.group('buildResults | ready time', () => {
+  test('places the ready time on the clock of the spans', ({ assert }) => {
+    const state = createProfilerState()
+    applyResults(state, { ...createData(), pendingModules: {}, pendingPhases: {} })
+    state.bootDuration = [0, 300_000_000]
+    state.readyLag = 500
+
+    const result = buildResults(state, '/app', { mode: 'web' })
+
+    assert.equal(result.totalTime, 300)
+    assert.equal(result.readyAt, 4500)
+  })
+})
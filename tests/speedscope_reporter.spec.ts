@@ -0,0 +1,85 @@
+import { test } from '@japa/runner'
+import { join } from 'node:path'
+import { readFileSync, rmSync } from 'node:fs'
+import { ProfileCollector } from '../src/profiler/collector.js'
+import { resolveConfig } from '../src/profiler/config.js'
+import { SpeedscopeReporter } from '../src/profiler/reporters/speedscope_reporter.js'
+import type { ReportContext } from '../src/profiler/reporters/base_reporter.js'
+import type { ModuleTiming, SpeedscopeDocument } from '../src/types.js'
+
+const testDir = join(process.cwd(), 'tests', '.tmp-speedscope')
+
+function createModule(url: string, loadTime: number, parentUrl?: string): ModuleTiming {
+  return {
+    specifier: url.split('/').pop() || url,
+    resolvedUrl: url,
+    loadTime,
+    parentUrl,
+  }
+}
+
+function createContext(): ReportContext {
+  const modules = [
+    createModule('file:///app/start/routes.ts', 5),
+    createModule('file:///app/app/controller.ts', 3, 'file:///app/start/routes.ts'),
+    createModule('file:///app/node_modules/lodash/get.js', 10, 'file:///app/app/controller.ts'),
+  ]
+  const providerPhases = new Map([['AppProvider', { register: 2, boot: 3 }]])
+
+  return {
+    result: new ProfileCollector(modules, providerPhases).collectResults(120),
+    cwd: '/app',
+    entryPoint: 'bin/server.ts',
+    config: resolveConfig(),
+  }
+}
+
+function stacks(document: SpeedscopeDocument, index: number) {
+  const profile = document.profiles[index]
+  return profile.samples.map((sample, i) => ({
+    stack: sample.map((frame) => document.shared.frames[frame].name),
+    weight: profile.weights[i],
+  }))
+}
+
+test.group('SpeedscopeReporter', (group) => {
+  group.each.teardown(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test('weighs module self times by import chain', ({ assert }) => {
+    const document = new SpeedscopeReporter('unused.json').toDocument(createContext())
+
+    assert.deepInclude(stacks(document, 0), {
+      stack: ['./start/routes.ts', './app/controller.ts', 'lodash/get.js'],
+      weight: 10,
+    })
+    assert.equal(document.profiles[0].endValue, 18)
+  })
+
+  test('shares frames between samples', ({ assert }) => {
+    const document = new SpeedscopeReporter('unused.json').toDocument(createContext())
+    const names = document.shared.frames.map((frame) => frame.name)
+
+    assert.equal(names.filter((name) => name === './start/routes.ts').length, 1)
+  })
+
+  test('reports provider phases in a separate profile', ({ assert }) => {
+    const document = new SpeedscopeReporter('unused.json').toDocument(createContext())
+
+    assert.equal(document.profiles[1].name, 'Provider phases')
+    assert.deepEqual(stacks(document, 1), [
+      { stack: ['AppProvider', 'AppProvider.register()'], weight: 2 },
+      { stack: ['AppProvider', 'AppProvider.boot()'], weight: 3 },
+    ])
+  })
+
+  test('writes the document to the output path', async ({ assert }) => {
+    const outputPath = join(testDir, 'nested', 'boot.speedscope.json')
+    await new SpeedscopeReporter(outputPath).render(createContext())
+
+    const written = JSON.parse(readFileSync(outputPath, 'utf-8'))
+    assert.equal(written.$schema, 'https://www.speedscope.app/file-format-schema.json')
+    assert.lengthOf(written.profiles, 2)
+  })
+})
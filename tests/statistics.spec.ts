@@ -0,0 +1,172 @@
+import { test } from '@japa/runner'
+import { ProfileCollector } from '../src/profiler/collector.js'
+import { aggregateResults, computeStats } from '../src/profiler/statistics.js'
+import type { ModuleTiming, ProfileResult } from '../src/types.js'
+
+function createModule(url: string, loadTime: number, parentUrl?: string): ModuleTiming {
+  return {
+    specifier: url.split('/').pop() || url,
+    resolvedUrl: url,
+    loadTime,
+    parentUrl,
+  }
+}
+
+function createRun(
+  rootTime: number,
+  childTime: number,
+  bootTime: number,
+  totalTime: number
+): ProfileResult {
+  const modules = [
+    createModule('file:///app/start/routes.ts', rootTime),
+    createModule('file:///app/app/service.ts', childTime, 'file:///app/start/routes.ts'),
+  ]
+  const providerPhases = new Map([['AppProvider', { register: 1, boot: bootTime }]])
+  return new ProfileCollector(modules, providerPhases).collectResults(totalTime)
+}
+
+test.group('computeStats', () => {
+  test('computes the distribution of an odd number of samples', ({ assert }) => {
+    const stats = computeStats([30, 10, 20])
+
+    assert.equal(stats.median, 20)
+    assert.equal(stats.mean, 20)
+    assert.equal(stats.min, 10)
+    assert.equal(stats.max, 30)
+    assert.equal(stats.p95, 30)
+    assert.closeTo(stats.stdDev, 8.165, 0.001)
+  })
+
+  test('averages the middle samples for an even count', ({ assert }) => {
+    assert.equal(computeStats([4, 1, 3, 2]).median, 2.5)
+  })
+
+  test('uses nearest rank for p95', ({ assert }) => {
+    const values = Array.from({ length: 20 }, (_, i) => i + 1)
+    assert.equal(computeStats(values).p95, 19)
+  })
+
+  test('handles a single sample', ({ assert }) => {
+    const stats = computeStats([42])
+
+    assert.equal(stats.median, 42)
+    assert.equal(stats.p95, 42)
+    assert.equal(stats.stdDev, 0)
+  })
+})
+
+test.group('aggregateResults', () => {
+  test('reports module medians with their distribution', ({ assert }) => {
+    const result = aggregateResults([
+      createRun(10, 20, 5, 100),
+      createRun(12, 40, 5, 120),
+      createRun(11, 30, 5, 500),
+    ])
+
+    const child = result.modules.find((m) => m.resolvedUrl === 'file:///app/app/service.ts')!
+    const root = result.modules.find((m) => m.resolvedUrl === 'file:///app/start/routes.ts')!
+
+    assert.equal(child.loadTime, 30)
+    assert.equal(child.stats!.loadTime.min, 20)
+    assert.equal(child.stats!.loadTime.max, 40)
+    assert.equal(root.loadTime, 11)
+    assert.equal(root.subtreeTime, 41)
+  })
+
+  test('aggregates provider phases and total time', ({ assert }) => {
+    const result = aggregateResults([
+      createRun(10, 20, 5, 100),
+      createRun(10, 20, 9, 120),
+      createRun(10, 20, 7, 500),
+    ])
+
+    const provider = result.providers[0]
+    assert.equal(provider.bootTime, 7)
+    assert.equal(provider.stats!.boot.max, 9)
+    assert.equal(provider.stats!.total.median, 8)
+    assert.equal(result.totalTime, 120)
+    assert.deepInclude(result.stats!, { runs: 3 })
+    assert.equal(result.stats!.totalTime.max, 500)
+  })
+
+  test('keeps provider phases that failed or never finished in any run', ({ assert }) => {
+    const runs = [createRun(10, 20, 5, 100), createRun(10, 20, 9, 120), createRun(10, 20, 7, 110)]
+    runs[0].providers[0].errors = [{ phase: 'boot', message: 'Missing env APP_KEY' }]
+    runs[1].providers[0].errors = [{ phase: 'boot', message: 'Missing env APP_KEY' }]
+    runs[2].providers[0].incompletePhases = ['ready']
+
+    const [provider] = aggregateResults(runs).providers
+
+    assert.deepEqual(provider.errors, [{ phase: 'boot', message: 'Missing env APP_KEY' }])
+    assert.deepEqual(provider.incompletePhases, ['ready'])
+  })
+
+  test('aggregates modules over the runs they appear in', ({ assert }) => {
+    const partial = new ProfileCollector([
+      createModule('file:///app/start/routes.ts', 50),
+    ]).collectResults(100)
+
+    const result = aggregateResults([createRun(10, 20, 5, 100), partial])
+    const child = result.modules.find((m) => m.resolvedUrl === 'file:///app/app/service.ts')!
+
+    assert.equal(child.loadTime, 20)
+    assert.equal(child.stats!.loadTime.stdDev, 0)
+  })
+
+  test('aggregates module evaluation times when reported', ({ assert }) => {
+    const runs = [8, 2, 4].map((evaluationTime) => {
+      const result = createRun(10, 20, 5, 100)
+      result.modules[0].evaluationTime = evaluationTime
+      return result
+    })
+
+    const result = aggregateResults(runs)
+    const root = result.modules.find((m) => m.resolvedUrl === 'file:///app/start/routes.ts')!
+    const child = result.modules.find((m) => m.resolvedUrl === 'file:///app/app/service.ts')!
+
+    assert.equal(root.evaluationTime, 4)
+    assert.equal(root.stats!.evaluationTime!.max, 8)
+    assert.isUndefined(child.evaluationTime)
+  })
+
+  test('aggregates the ace command execution time', ({ assert }) => {
+    const runs = [30, 10, 20].map((executionTime) => {
+      const result = createRun(10, 20, 5, 100)
+      result.command = { name: 'migration:run', args: [], executionTime, exitCode: 0 }
+      return result
+    })
+
+    assert.deepEqual(aggregateResults(runs).command, {
+      name: 'migration:run',
+      args: [],
+      executionTime: 20,
+      exitCode: 0,
+    })
+  })
+
+  test('reports the exit code of a command failing in a later run', ({ assert }) => {
+    const runs = [0, 3, 1].map((exitCode) => {
+      const result = createRun(10, 20, 5, 100)
+      result.command = { name: 'migration:run', args: [], executionTime: 10, exitCode }
+      return result
+    })
+
+    assert.equal(aggregateResults(runs).command!.exitCode, 3)
+  })
+
+  test('aggregates module transpile times', ({ assert }) => {
+    const runs = [6, 2, 3].map((transpileTime) => {
+      const result = createRun(10, 20, 5, 100)
+      result.modules[0].transpileTime = transpileTime
+      return result
+    })
+
+    const root = aggregateResults(runs).modules.find(
+      (m) => m.resolvedUrl === 'file:///app/start/routes.ts'
+    )!
+
+    assert.equal(root.transpileTime, 3)
+    assert.equal(root.stats!.transpileTime!.max, 6)
+  })
+})
@@ -0,0 +1,122 @@
+import { test } from '@japa/runner'
+import { ProfileCollector } from '../src/profiler/collector.js'
+import { buildTimeline, renderWaterfall } from '../src/profiler/timeline.js'
+import type { ModuleTiming, ProfileResult } from '../src/types.js'
+
+function createModule(url: string, startTime: number, endTime: number): ModuleTiming {
+  return {
+    specifier: url.split('/').pop() || url,
+    resolvedUrl: url,
+    loadTime: endTime - startTime,
+    startTime,
+    endTime,
+  }
+}
+
+function createResult(modules: ModuleTiming[], readyAt: number): ProfileResult {
+  const result = new ProfileCollector(modules, new Map([['AppProvider', { boot: 10 }]]))
+  const collected = { ...result.collectResults(readyAt - 20), readyAt }
+  collected.providers[0].spans = { boot: { start: 70, end: 80 } }
+  return collected
+}
+
+test.group('buildTimeline', () => {
+  test('merges overlapping module loads and reports the gaps', ({ assert }) => {
+    const result = createResult(
+      [
+        createModule('file:///app/a.ts', 20, 40),
+        createModule('file:///app/b.ts', 30, 50),
+        createModule('file:///app/c.ts', 55, 60),
+      ],
+      100
+    )
+
+    const timeline = buildTimeline(result)
+    const spans = (kind: string) =>
+      timeline.filter((e) => e.kind === kind).map((e) => [e.label, e.start, e.end])
+
+    assert.deepEqual(spans('modules'), [
+      ['Module loading', 20, 50],
+      ['Module loading', 55, 60],
+    ])
+    assert.deepEqual(spans('provider'), [['AppProvider boot', 70, 80]])
+    assert.deepEqual(spans('idle'), [
+      ['Node.js startup', 0, 20],
+      ['Idle', 50, 55],
+      ['Idle', 60, 70],
+      ['Idle', 80, 100],
+    ])
+  })
+
+  test('ends with the last entry without a ready time', ({ assert }) => {
+    const result = createResult([createModule('file:///app/a.ts', 20, 40)], 100)
+    delete result.readyAt
+
+    const timeline = buildTimeline(result)
+
+    assert.equal(Math.max(...timeline.map((e) => e.end)), 80)
+    assert.deepEqual(timeline.at(-1), {
+      kind: 'provider',
+      label: 'AppProvider boot',
+      phase: 'boot',
+      start: 70,
+      end: 80,
+    })
+  })
+
+  test('sorts entries by start time', ({ assert }) => {
+    const result = createResult(
+      [createModule('file:///app/b.ts', 30, 50), createModule('file:///app/a.ts', 10, 20)],
+      80
+    )
+
+    const starts = buildTimeline(result).map((e) => e.start)
+    assert.deepEqual(
+      starts,
+      [...starts].sort((a, b) => a - b)
+    )
+  })
+
+  test('shows the slowest modules on their own rows', ({ assert }) => {
+    const result = createResult(
+      [
+        createModule('file:///app/fast.ts', 10, 11),
+        createModule('file:///app/slow.ts', 11, 40),
+        createModule('file:///app/medium.ts', 40, 50),
+      ],
+      80
+    )
+
+    const labels = buildTimeline(result, { topModules: 2 })
+      .filter((e) => e.kind === 'module')
+      .map((e) => e.label)
+
+    assert.deepEqual(labels, ['slow.ts', 'medium.ts'])
+  })
+
+  test('returns nothing without timestamps', ({ assert }) => {
+    const result = new ProfileCollector([
+      { specifier: 'a.ts', resolvedUrl: 'file:///app/a.ts', loadTime: 10 },
+    ]).collectResults(100)
+
+    assert.deepEqual(buildTimeline(result), [])
+  })
+})
+
+test.group('renderWaterfall', () => {
+  test('scales entries to the width and shares rows by label', ({ assert }) => {
+    const rows = renderWaterfall(
+      [
+        { kind: 'idle', label: 'Node.js startup', start: 0, end: 50 },
+        { kind: 'modules', label: 'Module loading', start: 50, end: 70 },
+        { kind: 'modules', label: 'Module loading', start: 80, end: 100 },
+      ],
+      10
+    )
+
+    assert.deepEqual(rows, [
+      { kind: 'idle', label: 'Node.js startup', duration: 50, bar: '░░░░░     ' },
+      { kind: 'modules', label: 'Module loading', duration: 40, bar: '     ██ ██' },
+    ])
+  })
+})
@@ -0,0 +1,121 @@
+import { test } from '@japa/runner'
+import { join } from 'node:path'
+import { readFileSync, rmSync } from 'node:fs'
+import { ProfileCollector } from '../src/profiler/collector.js'
+import { resolveConfig } from '../src/profiler/config.js'
+import { TraceReporter } from '../src/profiler/reporters/trace_reporter.js'
+import type { ReportContext } from '../src/profiler/reporters/base_reporter.js'
+import type { ModuleTiming, TraceEvent } from '../src/types.js'
+
+const testDir = join(process.cwd(), 'tests', '.tmp-trace')
+
+function createModule(
+  url: string,
+  startTime: number,
+  endTime: number,
+  parentUrl?: string
+): ModuleTiming {
+  return {
+    specifier: url.split('/').pop() || url,
+    resolvedUrl: url,
+    loadTime: 1,
+    parentUrl,
+    startTime,
+    endTime,
+  }
+}
+
+function createContext(modules: ModuleTiming[]): ReportContext {
+  const providerPhases = new Map([['AppProvider', { register: 2, boot: 3 }]])
+  const result = {
+    ...new ProfileCollector(modules, providerPhases).collectResults(100),
+    readyAt: 120,
+  }
+  result.providers[0].spans = { register: { start: 60, end: 62 }, boot: { start: 62, end: 65 } }
+
+  return { result, cwd: '/app', entryPoint: 'bin/server.ts', config: resolveConfig() }
+}
+
+function slices(events: TraceEvent[], cat: string) {
+  return events.filter((e) => e.ph === 'X' && e.cat === cat)
+}
+
+function threadNames(events: TraceEvent[]) {
+  return Object.fromEntries(
+    events.filter((e) => e.name === 'thread_name').map((e) => [e.tid, e.args!.name])
+  )
+}
+
+test.group('TraceReporter', (group) => {
+  group.each.teardown(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test('emits module loads as slices in microseconds', ({ assert }) => {
+    const { traceEvents } = new TraceReporter('unused.json').toTrace(
+      createContext([createModule('file:///app/start/routes.ts', 10, 12.5)])
+    )
+
+    const [slice] = slices(traceEvents, 'module')
+    assert.equal(slice.name, 'routes.ts')
+    assert.equal(slice.ts, 10_000)
+    assert.equal(slice.dur, 2_500)
+    assert.equal(slice.args!.url, 'file:///app/start/routes.ts')
+  })
+
+  test('nests imports under their importer', ({ assert }) => {
+    const { traceEvents } = new TraceReporter('unused.json').toTrace(
+      createContext([
+        createModule('file:///app/a.ts', 0, 50),
+        createModule('file:///app/b.ts', 10, 20, 'file:///app/a.ts'),
+        createModule('file:///app/c.ts', 15, 30),
+      ])
+    )
+
+    const tids = Object.fromEntries(slices(traceEvents, 'module').map((e) => [e.name, e.tid]))
+    assert.equal(tids['a.ts'], tids['b.ts'])
+    assert.notEqual(tids['c.ts'], tids['b.ts'])
+    assert.equal(threadNames(traceEvents)[tids['c.ts']], 'Modules (2)')
+  })
+
+  test('puts provider lifecycle methods on their own track', ({ assert }) => {
+    const { traceEvents } = new TraceReporter('unused.json').toTrace(
+      createContext([createModule('file:///app/a.ts', 0, 50)])
+    )
+
+    const providers = slices(traceEvents, 'provider')
+    assert.deepEqual(
+      providers.map((e) => e.name),
+      ['AppProvider.register()', 'AppProvider.boot()']
+    )
+    assert.equal(threadNames(traceEvents)[providers[0].tid], 'Providers')
+  })
+
+  test('marks when the app was ready on the clock of the slices', ({ assert }) => {
+    const context = createContext([createModule('file:///app/a.ts', 0, 50)])
+    const { traceEvents } = new TraceReporter('unused.json').toTrace(context)
+
+    const instants = traceEvents.filter((e) => e.ph === 'i')
+    assert.deepEqual(
+      instants.map((e) => [e.name, e.ts]),
+      [['Ready', 120_000]]
+    )
+  })
+
+  test('leaves out the ready marker without a ready time', ({ assert }) => {
+    const context = createContext([createModule('file:///app/a.ts', 0, 50)])
+    delete context.result.readyAt
+    const { traceEvents } = new TraceReporter('unused.json').toTrace(context)
+
+    assert.isFalse(traceEvents.some((e) => e.ph === 'i'))
+  })
+
+  test('writes the trace to the output path', async ({ assert }) => {
+    const outputPath = join(testDir, 'nested', 'boot.trace.json')
+    await new TraceReporter(outputPath).render(createContext([]))
+
+    const written = JSON.parse(readFileSync(outputPath, 'utf-8'))
+    assert.equal(written.displayTimeUnit, 'ms')
+    assert.isArray(written.traceEvents)
+  })
+})
@@ -1,5 +1,5 @@
 import { test } from '@japa/runner'
-import { buildDependencyTree, getImportChain } from '../src/xray/tree.js'
+import { buildDependencyTree, getImportChain, getImportChains } from '../src/xray/tree.js'
 import type { ModuleTiming } from '../src/types.js'
 
 function createModule(
@@ -173,3 +173,48 @@ test.group('getImportChain', () => {
     assert.isAtMost(chain.length, 2)
   })
 })
+
+test.group('getImportChains', () => {
+  const shared = (): ModuleTiming[] => [
+    createModule('file:///app/root.ts', 10),
+    createModule('file:///app/a.ts', 10, 'file:///app/root.ts'),
+    createModule('file:///app/b.ts', 10, 'file:///app/root.ts'),
+    {
+      ...createModule('file:///app/shared.ts', 5, 'file:///app/a.ts'),
+      importers: [
+        { url: 'file:///app/a.ts', specifier: './shared.js' },
+        { url: 'file:///app/b.ts', specifier: '#app/shared' },
+      ],
+    },
+  ]
+
+  test('links a module to all its importers', ({ assert }) => {
+    const tree = buildDependencyTree(shared(), '/app')
+    const node = tree.nodeMap.get('file:///app/shared.ts')!
+
+    assert.deepEqual(
+      node.parents.map((p) => p.displayName),
+      ['./a.ts', './b.ts']
+    )
+    assert.equal(node.parent?.displayName, './a.ts')
+    assert.include(tree.nodeMap.get('file:///app/b.ts')!.children, node)
+  })
+
+  test('returns every path from the roots', ({ assert }) => {
+    const tree = buildDependencyTree(shared(), '/app')
+    const chains = getImportChains(tree.nodeMap.get('file:///app/shared.ts')!)
+
+    assert.deepEqual(
+      chains.map((chain) => chain.map((n) => n.displayName)),
+      [
+        ['./root.ts', './a.ts', './shared.ts'],
+        ['./root.ts', './b.ts', './shared.ts'],
+      ]
+    )
+  })
+
+  test('caps the number of paths', ({ assert }) => {
+    const tree = buildDependencyTree(shared(), '/app')
+    assert.lengthOf(getImportChains(tree.nodeMap.get('file:///app/shared.ts')!, 1), 1)
+  })
+})